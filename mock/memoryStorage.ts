@@ -0,0 +1,15 @@
+// mock/memoryStorage.ts
+// localStorage for tests running in Node; keep the instance across a
+// simulated reload to see what survived it.
+
+export function memoryStorage(): Storage {
+  const data = new Map<string, string>();
+  return {
+    get length() { return data.size; },
+    key: (i) => [...data.keys()][i] ?? null,
+    getItem: (k) => data.get(k) ?? null,
+    setItem: (k, v) => void data.set(k, String(v)),
+    removeItem: (k) => void data.delete(k),
+    clear: () => data.clear(),
+  };
+}
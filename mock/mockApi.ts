@@ -0,0 +1,57 @@
+// mock/mockApi.ts
+// Serves the in-memory backend (mockBackend.ts) from the Vite dev server
+// under /api (see src/api/ApiClient.ts for the routes).
+//   MOCK_API=0          don't install it (proxy a real backend instead)
+//   MOCK_API_FAIL=503   answer every write with 503 → client queues and retries
+//   MOCK_API_FAIL=400   answer every write with 400 → client rolls back
+//   MOCK_API_DELAY=ms   delay every answer
+import type { Plugin } from 'vite';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { mockBackend } from './mockBackend';
+
+export function mockApi(): Plugin {
+  const backend = mockBackend();
+
+  /** Parsed body; undefined when empty, null when it isn't JSON. */
+  const readJson = (req: IncomingMessage) =>
+    new Promise<unknown>((resolve) => {
+      let data = '';
+      req.on('data', (c: Buffer) => (data += c));
+      req.on('end', () => {
+        try {
+          resolve(data ? JSON.parse(data) : undefined);
+        } catch {
+          resolve(null);
+        }
+      });
+    });
+
+  const send = (res: ServerResponse, status: number, body: unknown) => {
+    res.statusCode = status;
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify(body));
+  };
+
+  return {
+    name: 'mock-api',
+    apply: 'serve',
+    configureServer(server) {
+      if (process.env.MOCK_API === '0') return;
+      backend.fail = Number(process.env.MOCK_API_FAIL) || 0;
+      const delay = Number(process.env.MOCK_API_DELAY) || 0;
+
+      server.middlewares.use('/api', async (req, res) => {
+        if (delay) await new Promise((r) => setTimeout(r, delay));
+        const headers: Record<string, string | undefined> = {};
+        for (const [k, v] of Object.entries(req.headers)) headers[k] = Array.isArray(v) ? v[0] : v;
+        const out = backend.handle({
+          method: req.method ?? 'GET',
+          path: req.url ?? '/',
+          headers,
+          body: await readJson(req),
+        });
+        send(res, out.status, out.body);
+      });
+    },
+  };
+}
@@ -0,0 +1,115 @@
+// mock/mockBackend.ts
+// The in-memory reactions / comments backend behind the dev server's /api
+// (mockApi.ts) and the tests (mockFetch). Routes: see src/api/ApiClient.ts.
+
+type Kind = 'like' | 'heart' | 'repost';
+type Comment = { id: string; author?: string; text: string; createdAt: number; parentId?: string };
+/** Who reacted, per kind – counts are derived, so setting a reaction twice is a no-op. */
+type ItemState = { reactions: Record<Kind, Set<string>>; comments: Comment[] };
+
+/** Path is below /api; header names are lower case; body is parsed JSON (null: unparseable). */
+export type MockRequest = { method: string; path: string; headers: Record<string, string | undefined>; body?: unknown };
+export type MockResponse = { status: number; body: unknown };
+
+export type MockBackend = {
+  /** Answer every write with this status (0: don't) – 5xx makes clients queue, 4xx roll back. */
+  fail: number;
+  handle(req: MockRequest): MockResponse;
+};
+
+const KINDS: readonly Kind[] = ['like', 'heart', 'repost'];
+
+export function mockBackend(): MockBackend {
+  const items = new Map<string, ItemState>();
+  /** idempotency-key → answer already sent (retries must not count twice) */
+  const answered = new Map<string, MockResponse>();
+
+  const item = (key: string) => {
+    let s = items.get(key);
+    if (!s) {
+      s = { reactions: { like: new Set(), heart: new Set(), repost: new Set() }, comments: [] };
+      items.set(key, s);
+    }
+    return s;
+  };
+
+  const counts = (s: ItemState) => ({
+    like: s.reactions.like.size,
+    heart: s.reactions.heart.size,
+    repost: s.reactions.repost.size,
+  });
+
+  function route({ method, path, headers, body }: MockRequest): MockResponse {
+    const m = path.match(/^\/items\/([^/]+)(\/[^?]*)?$/);
+    if (!m) return { status: 404, body: { error: 'not found' } };
+    const s = item(decodeURIComponent(m[1]));
+    const rest = m[2] ?? '';
+
+    const user = headers['x-user-id'];
+    if (method === 'GET' && rest === '') {
+      const mine = user ? KINDS.filter((k) => s.reactions[k].has(user)) : [];
+      return { status: 200, body: { counts: counts(s), mine, comments: s.comments } };
+    }
+    const reaction = rest.match(/^\/reactions\/(\w+)$/);
+    if ((method === 'PUT' || method === 'DELETE') && reaction) {
+      const kind = reaction[1] as Kind;
+      if (!KINDS.includes(kind)) return { status: 400, body: { error: 'bad kind' } };
+      if (!user) return { status: 400, body: { error: 'X-User-Id required' } };
+      if (method === 'PUT') s.reactions[kind].add(user);
+      else s.reactions[kind].delete(user);
+      return { status: 200, body: { counts: counts(s) } };
+    }
+    if (method === 'POST' && rest === '/comments') {
+      const b = body as Record<string, unknown> | null | undefined;
+      const text = typeof b?.text === 'string' ? b.text.trim() : '';
+      if (!b || !text || text.length > 500) return { status: 400, body: { error: 'text must be 1–500 characters' } };
+      const comment: Comment = {
+        id: typeof b.id === 'string' ? b.id : `srv-${Date.now()}`,
+        author: typeof b.author === 'string' ? b.author : 'Anonymous',
+        text,
+        createdAt: Date.now(),
+      };
+      if (typeof b.parentId === 'string') {
+        const parent = s.comments.find((c) => c.id === b.parentId);
+        if (!parent) return { status: 400, body: { error: 'unknown parentId' } };
+        comment.parentId = parent.parentId ?? parent.id; // one level of nesting
+      }
+      if (!s.comments.some((c) => c.id === comment.id)) s.comments.push(comment);
+      return { status: 200, body: { comment } };
+    }
+    return { status: 405, body: { error: 'method not allowed' } };
+  }
+
+  const backend: MockBackend = {
+    fail: 0,
+    handle(req) {
+      if (backend.fail && req.method !== 'GET') return { status: backend.fail, body: { error: `MOCK_API_FAIL=${backend.fail}` } };
+      const idem = req.headers['idempotency-key'];
+      const seen = idem ? answered.get(idem) : undefined;
+      if (seen) return seen;
+      const out = route(req);
+      // a copy, so later changes to the item don't leak into the replayed answer
+      if (idem && out.status < 500) answered.set(idem, JSON.parse(JSON.stringify(out)));
+      return out;
+    },
+  };
+  return backend;
+}
+
+/** A `fetch` that answers `base` URLs from `backend`, for running ApiClient without a server. */
+export function mockFetch(backend: MockBackend, base = '/api') {
+  return async (input: string | URL | Request, init: RequestInit = {}): Promise<Response> => {
+    const url = String(input);
+    if (!url.startsWith(base)) throw new TypeError(`mockFetch: no route for ${url}`);
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((v, k) => (headers[k] = v));
+    let body: unknown;
+    try {
+      body = typeof init.body === 'string' ? JSON.parse(init.body) : undefined;
+    } catch {
+      body = null;
+    }
+    const out = backend.handle({ method: init.method ?? 'GET', path: url.slice(base.length) || '/', headers, body });
+    return new Response(JSON.stringify(out.body), { status: out.status, headers: { 'content-type': 'application/json' } });
+  };
+}
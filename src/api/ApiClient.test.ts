@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockBackend, mockBackend, mockFetch } from '../../mock/mockBackend';
+import { memoryStorage } from '../../mock/memoryStorage';
+import { ApiClient, ApiError } from './ApiClient';
+
+let backend: MockBackend;
+let storage: Storage;
+/** false: every request fails as if offline. */
+let up: boolean;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  backend = mockBackend();
+  storage = memoryStorage();
+  up = true;
+  const serve = mockFetch(backend);
+  vi.stubGlobal('localStorage', storage);
+  vi.stubGlobal('addEventListener', () => {});
+  vi.stubGlobal('fetch', vi.fn((input: string, init?: RequestInit) =>
+    up ? serve(input, init) : Promise.reject(new TypeError('Failed to fetch'))));
+});
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+const client = (user = 'u-1') => new ApiClient('/api', user);
+
+describe('ApiClient against the mock backend', () => {
+  it('sets and clears reactions per user', async () => {
+    const a = client('u-a');
+    const b = client('u-b');
+    expect(await a.react('k', 'like')).toEqual({ counts: { like: 1, heart: 0, repost: 0 } });
+    // setting it again is a no-op
+    expect(await a.react('k', 'like')).toEqual({ counts: { like: 1, heart: 0, repost: 0 } });
+    expect(await b.react('k', 'like')).toEqual({ counts: { like: 2, heart: 0, repost: 0 } });
+    expect(await a.react('k', 'like', false)).toEqual({ counts: { like: 1, heart: 0, repost: 0 } });
+
+    const state = await b.item('k');
+    expect(state.counts.like).toBe(1);
+    expect(state.mine).toEqual(['like']);
+    expect((await a.item('k')).mine).toEqual([]);
+  });
+
+  it('posts comments and nests replies one level', async () => {
+    const api = client();
+    const top = await api.comment('k', { id: 'c1', text: ' hi ', author: 'Ann' });
+    expect(top?.comment).toMatchObject({ id: 'c1', text: 'hi', author: 'Ann' });
+    await api.comment('k', { id: 'c2', text: 're', author: 'Bo', parentId: 'c1' });
+    const reply = await api.comment('k', { id: 'c3', text: 're re', author: 'Cy', parentId: 'c2' });
+    expect(reply?.comment.parentId).toBe('c1');
+    expect((await api.item('k')).comments.map((c) => c.id)).toEqual(['c1', 'c2', 'c3']);
+  });
+
+  it('rejects a refused call with ApiError and does not queue it', async () => {
+    const api = client();
+    const refused = api.comment('k', { text: 'orphan', author: 'Ann', parentId: 'missing' });
+    await expect(refused).rejects.toBeInstanceOf(ApiError);
+    await expect(refused).rejects.toMatchObject({ status: 400 });
+    expect(api.pending).toBe(0);
+
+    backend.fail = 400;
+    await expect(api.react('k', 'heart')).rejects.toMatchObject({ status: 400 });
+    expect(api.pending).toBe(0);
+  });
+
+  it('queues calls while the server is down and settles them in order once it answers', async () => {
+    const api = client();
+    backend.fail = 503;
+    const like = api.react('k', 'like');
+    const unlike = api.react('k', 'like', false);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(api.pending).toBe(2);
+
+    backend.fail = 0;
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(await like).toEqual({ counts: { like: 1, heart: 0, repost: 0 } });
+    expect(await unlike).toEqual({ counts: { like: 0, heart: 0, repost: 0 } });
+    expect(api.pending).toBe(0);
+  });
+
+  it('keeps offline calls across a reload, replays them and reconciles the item', async () => {
+    up = false;
+    const before = client();
+    before.react('k', 'heart').catch(() => {});
+    before.comment('k', { id: 'c1', text: 'offline', author: 'Ann' }).catch(() => {});
+    await vi.advanceTimersByTimeAsync(0);
+    expect(before.pending).toBe(2);
+    vi.clearAllTimers(); // the page goes away
+
+    up = true;
+    const after = client();
+    const reconcile = vi.fn();
+    after.setOnReconcile(reconcile);
+    expect(after.pending).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(after.pending).toBe(0);
+    expect(reconcile).toHaveBeenCalledTimes(1);
+    const [key, state] = reconcile.mock.calls[0];
+    expect(key).toBe('k');
+    expect(state.counts.heart).toBe(1);
+    expect(state.mine).toEqual(['heart']);
+    expect(state.comments.map((c: { id: string }) => c.id)).toEqual(['c1']);
+  });
+
+  it('does not count a replayed call twice', async () => {
+    const api = client();
+    await api.react('k', 'like');
+    const [url, init] = vi.mocked(fetch).mock.calls[0] as [string, RequestInit];
+    // the same call (same Idempotency-Key) from a second user id would count if it weren't a replay
+    const headers = { ...(init.headers as Record<string, string>), 'x-user-id': 'u-2' };
+    await fetch(url, { ...init, headers });
+    expect((await api.item('k')).counts.like).toBe(1);
+  });
+
+  it('drops queued calls an older client version left behind', async () => {
+    storage.setItem('mvp.api.queue', JSON.stringify([{ id: 'old', payload: { type: 'increment', id: 'old', key: 'k' } }]));
+    const api = client();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(api.pending).toBe(0);
+  });
+});
@@ -0,0 +1,155 @@
+// src/api/ApiClient.ts
+import type { Comment, ReactionKind } from '../ui/ReactionHud';
+import type { ReactionCounts } from '../storage/SocialStorage';
+import { RetryLater, RetryQueue } from './RetryQueue';
+
+/**
+ * A call the client can replay later; `id` doubles as the Idempotency-Key.
+ * Reactions (repost included) are set / cleared per user, so replays can't double-count.
+ */
+export type ApiOp =
+  | { type: 'react'; id: string; key: string; kind: ReactionKind }
+  | { type: 'unreact'; id: string; key: string; kind: ReactionKind }
+  | { type: 'comment'; id: string; key: string; text: string; author: string; parentId?: string };
+
+export type CountsResponse = { counts: ReactionCounts };
+export type CommentResponse = { comment: Comment };
+/** `mine`: the reactions of the user the client sends as. */
+export type ItemResponse = { counts: ReactionCounts; mine: ReactionKind[]; comments: Comment[] };
+
+/** The server answered and refused (4xx) – retrying won't help, roll back. */
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/** Anonymous id for this browser, made on first use (sent as X-User-Id). */
+function localUserId(): string {
+  const KEY = 'mvp.api.user';
+  try {
+    let id = localStorage.getItem(KEY);
+    if (!id) {
+      id = `u-${newId()}`;
+      localStorage.setItem(KEY, id);
+    }
+    return id;
+  } catch {
+    return `u-${newId()}`; // storage blocked: a new user per page load
+  }
+}
+
+/**
+ * Typed client for the reactions / comments backend. Calls that can't get
+ * through (offline, 5xx, 429) wait in a persisted RetryQueue and the returned
+ * promise settles once they're delivered; later calls queue behind them so
+ * the server sees them in order.
+ */
+export class ApiClient {
+  private queue: RetryQueue<ApiOp>;
+  /** Items with calls from an earlier page load that have since been settled. */
+  private stale = new Set<string>();
+  private onReconcile?: (key: string, state: ItemResponse) => void;
+
+  constructor(private baseUrl = '/api', private userId = localUserId()) {
+    this.queue = new RetryQueue('mvp.api.queue', (op) => this.send(op), (op) => this.settledUnclaimed(op));
+  }
+
+  /** Calls waiting for the network. */
+  get pending() { return this.queue.size; }
+
+  /**
+   * Server state of items whose queued calls were delivered (or refused)
+   * after a reload, when nobody was waiting for the answer any more.
+   */
+  setOnReconcile(cb: (key: string, state: ItemResponse) => void) { this.onReconcile = cb; }
+
+  /** Counts, this user's reactions and comments the server has for an item. */
+  item(key: string): Promise<ItemResponse> {
+    return this.request('GET', this.itemUrl(key)) as Promise<ItemResponse>;
+  }
+
+  // writes resolve undefined when the server answers without a body (204)
+  /** Set (`on`) or clear this user's `kind` reaction. */
+  react(key: string, kind: ReactionKind, on = true): Promise<CountsResponse | undefined> {
+    return this.call({ type: on ? 'react' : 'unreact', id: newId(), key, kind });
+  }
+  /** `id` lets the caller show the comment before the server has it; `parentId` makes it a reply. */
+  comment(
+    key: string,
+    c: { text: string; author: string; id?: string; parentId?: string }
+  ): Promise<CommentResponse | undefined> {
+    return this.call({ type: 'comment', id: c.id ?? newId(), key, text: c.text, author: c.author, parentId: c.parentId });
+  }
+
+  private async call<T>(op: ApiOp): Promise<T> {
+    if (!this.queue.size) {
+      try {
+        return (await this.send(op)) as T;
+      } catch (e) {
+        if (!(e instanceof RetryLater)) throw e;
+      }
+    }
+    return this.queue.push(op.id, op) as Promise<T>;
+  }
+
+  /** Once the queue has drained, fetch what the server made of each item. */
+  private settledUnclaimed(op: ApiOp) {
+    this.stale.add(op.key);
+    if (this.queue.size) return;
+    const keys = [...this.stale];
+    this.stale.clear();
+    for (const key of keys) {
+      this.item(key).then(
+        (state) => this.onReconcile?.(key, state),
+        (e) => console.warn(`Could not reconcile ${key}:`, e)
+      );
+    }
+  }
+
+  private itemUrl(key: string) {
+    return `${this.baseUrl}/items/${encodeURIComponent(key)}`;
+  }
+
+  private send(op: ApiOp): Promise<unknown> {
+    const item = this.itemUrl(op.key);
+    let method: string;
+    let url: string;
+    let body: unknown;
+    switch (op.type) {
+      case 'react':
+      case 'unreact':
+        method = op.type === 'react' ? 'PUT' : 'DELETE';
+        url = `${item}/reactions/${op.kind}`;
+        break;
+      case 'comment':
+        method = 'POST';
+        url = `${item}/comments`;
+        body = { id: op.id, text: op.text, author: op.author, parentId: op.parentId };
+        break;
+      default:
+        // queued by an older version of the client
+        return Promise.reject(new ApiError(400, `unknown call ${(op as { type?: unknown }).type}`));
+    }
+
+    return this.request(method, url, body, op.id, op.type);
+  }
+
+  /** Resolves with the parsed body (undefined for 204 / empty); see ApiError / RetryLater. */
+  private async request(method: string, url: string, body?: unknown, idempotencyKey?: string, what = method) {
+    const headers: Record<string, string> = { 'content-type': 'application/json', 'x-user-id': this.userId };
+    if (idempotencyKey) headers['idempotency-key'] = idempotencyKey;
+    let res: Response;
+    try {
+      res = await fetch(url, { method, headers, body: body === undefined ? undefined : JSON.stringify(body) });
+    } catch {
+      throw new RetryLater('offline');
+    }
+    if (res.status >= 500 || res.status === 429) throw new RetryLater(`HTTP ${res.status}`);
+    if (!res.ok) throw new ApiError(res.status, `${what} failed (${res.status})`);
+    const text = await res.text();
+    return text ? (JSON.parse(text) as unknown) : undefined;
+  }
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { memoryStorage } from '../../mock/memoryStorage';
+import { RetryLater, RetryQueue } from './RetryQueue';
+
+const KEY = 'test.queue';
+let storage: Storage;
+/** 'online' listeners the queues installed. */
+let online: (() => void)[];
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  storage = memoryStorage();
+  online = [];
+  vi.stubGlobal('localStorage', storage);
+  vi.stubGlobal('addEventListener', (type: string, fn: () => void) => type === 'online' && online.push(fn));
+});
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+const stored = () => JSON.parse(storage.getItem(KEY) ?? '[]').map((e: { id: string }) => e.id);
+
+describe('RetryQueue', () => {
+  it('delivers in order after the first delay and empties storage', async () => {
+    const sent: string[] = [];
+    const q = new RetryQueue<string>(KEY, async (p) => sent.push(p));
+    const a = q.push('a', 'A');
+    const b = q.push('b', 'B');
+    expect(stored()).toEqual(['a', 'b']);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    await expect(a).resolves.toBe(1);
+    await expect(b).resolves.toBe(2);
+    expect(sent).toEqual(['A', 'B']);
+    expect(q.size).toBe(0);
+    expect(stored()).toEqual([]);
+  });
+
+  it('keeps an entry on RetryLater and backs off', async () => {
+    const run = vi.fn(async () => { throw new RetryLater('offline'); });
+    const q = new RetryQueue<string>(KEY, run);
+    q.push('a', 'A');
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(stored()).toEqual(['a']);
+
+    // the next try waits twice as long
+    await vi.advanceTimersByTimeAsync(3999);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(q.size).toBe(1);
+  });
+
+  it('drops and rejects an entry that fails for good, then carries on', async () => {
+    const q = new RetryQueue<string>(KEY, async (p) => {
+      if (p === 'bad') throw new Error('refused');
+      return p;
+    });
+    const bad = q.push('a', 'bad');
+    const good = q.push('b', 'good');
+    bad.catch(() => {});
+    await vi.advanceTimersByTimeAsync(2000);
+    await expect(bad).rejects.toThrow('refused');
+    await expect(good).resolves.toBe('good');
+    expect(q.size).toBe(0);
+  });
+
+  it('flushes as soon as the browser is back online', async () => {
+    let up = false;
+    const q = new RetryQueue<string>(KEY, async (p) => {
+      if (!up) throw new RetryLater('offline');
+      return p;
+    });
+    const done = q.push('a', 'A');
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(q.size).toBe(1);
+
+    up = true;
+    online.forEach((fn) => fn());
+    await expect(done).resolves.toBe('A');
+  });
+
+  it('replays entries from an earlier page load and reports them as unclaimed', async () => {
+    const first = new RetryQueue<string>(KEY, async () => { throw new RetryLater('offline'); });
+    first.push('a', 'A').catch(() => {});
+    first.push('b', 'B').catch(() => {});
+    vi.clearAllTimers(); // the page goes away
+
+    const sent: string[] = [];
+    const unclaimed = vi.fn();
+    const reloaded = new RetryQueue<string>(KEY, async (p) => sent.push(p), unclaimed);
+    expect(reloaded.size).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(sent).toEqual(['A', 'B']);
+    expect(unclaimed.mock.calls).toEqual([['A'], ['B']]);
+    expect(stored()).toEqual([]);
+  });
+
+  it('starts empty when the stored queue is unreadable', () => {
+    storage.setItem(KEY, '{nope');
+    expect(new RetryQueue<string>(KEY, async () => {}).size).toBe(0);
+  });
+});
@@ -0,0 +1,109 @@
+// src/api/RetryQueue.ts
+
+type Entry<T> = { id: string; payload: T };
+type Waiter = { resolve: (v: unknown) => void; reject: (e: unknown) => void };
+
+const MIN_DELAY_MS = 2000;
+const MAX_DELAY_MS = 60000;
+
+/** Thrown by a RetryQueue's `run` to keep the entry queued for the next attempt. */
+export class RetryLater extends Error {}
+
+/**
+ * FIFO of calls that couldn't reach the server, kept in localStorage so they
+ * survive reloads. Retries with backoff and as soon as the browser reports
+ * it's back online. `run` resolves when delivered, throws RetryLater to keep
+ * the entry queued and anything else to drop it. Entries restored from
+ * storage have nobody waiting: `unclaimed` hears when they're settled.
+ */
+export class RetryQueue<T> {
+  private entries: Entry<T>[];
+  /** Callers still waiting in this page (entries restored from storage have none). */
+  private waiters = new Map<string, Waiter>();
+  private timer?: ReturnType<typeof setTimeout>;
+  private delay = MIN_DELAY_MS;
+  private flushing = false;
+
+  constructor(
+    private storageKey: string,
+    private run: (payload: T) => Promise<unknown>,
+    private unclaimed?: (payload: T) => void
+  ) {
+    this.entries = this.restore();
+    addEventListener('online', () => this.flush());
+    if (this.entries.length) this.schedule();
+  }
+
+  get size() { return this.entries.length; }
+
+  /** Resolves with `run`'s result once delivered; rejects if `run` gives up on it. */
+  push(id: string, payload: T): Promise<unknown> {
+    this.entries.push({ id, payload });
+    this.persist();
+    this.schedule();
+    return new Promise((resolve, reject) => this.waiters.set(id, { resolve, reject }));
+  }
+
+  async flush() {
+    if (this.flushing) return;
+    this.flushing = true;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    try {
+      while (this.entries.length) {
+        const entry = this.entries[0];
+        let result: unknown;
+        try {
+          result = await this.run(entry.payload);
+        } catch (e) {
+          if (e instanceof RetryLater) {
+            this.delay = Math.min(MAX_DELAY_MS, this.delay * 2);
+            this.flushing = false; // or schedule() would take it for a flush still running
+            this.schedule();
+            return;
+          }
+          this.settle(entry, (w) => w.reject(e));
+          continue;
+        }
+        this.settle(entry, (w) => w.resolve(result));
+      }
+      this.delay = MIN_DELAY_MS;
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  private settle(entry: Entry<T>, notify: (w: Waiter) => void) {
+    this.entries.shift();
+    this.persist();
+    const w = this.waiters.get(entry.id);
+    this.waiters.delete(entry.id);
+    if (w) notify(w);
+    else this.unclaimed?.(entry.payload);
+  }
+
+  private schedule() {
+    if (this.timer || this.flushing) return;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.flush();
+    }, this.delay);
+  }
+
+  private restore(): Entry<T>[] {
+    try {
+      const list = JSON.parse(localStorage.getItem(this.storageKey) ?? '[]');
+      return Array.isArray(list) ? list : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.entries));
+    } catch (e) {
+      console.warn('Could not persist offline queue:', e);
+    }
+  }
+}
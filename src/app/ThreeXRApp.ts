@@ -1,7 +1,15 @@
 import * as THREE from 'three';
 import { XRHandModelFactory } from 'three/examples/jsm/webxr/XRHandModelFactory.js';
 
-export type XRFrameInfo = { frame: XRFrame | null; refSpace: XRReferenceSpace | null };
+export type XRFrameInfo = {
+  frame: XRFrame | null;
+  refSpace: XRReferenceSpace | null;
+  /** Seconds since the previous frame (0 on the first frame after start/resume). */
+  dt: number;
+};
+
+/** Longest step handed to onFrame callbacks, so a stalled frame doesn't fast-forward animations. */
+const MAX_FRAME_DT = 0.1;
 
 export class ThreeXRApp {
   public renderer: THREE.WebGLRenderer;
@@ -17,6 +25,7 @@ export class ThreeXRApp {
 
   private paused = false;
   private loopFn?: (t: number, frame?: XRFrame) => void;
+  private lastFrameTime: number | null = null;
   private onPauseCbs: Array<() => void> = [];
   private onResumeCbs: Array<() => void> = [];
 
@@ -27,6 +36,9 @@ export class ThreeXRApp {
     this.renderer.xr.setReferenceSpaceType?.('local-floor');
     document.body.appendChild(this.renderer.domElement);
 
+    // stereo content puts each eye's image on layer 1 / 2; outside XR show the left one
+    this.camera.layers.enable(1);
+
     this.scene.background = null;
     this.scene.add(new THREE.HemisphereLight(0xffffff, 0x222233, 0.9));
     this.scene.add(this.contentRoot);
@@ -82,11 +94,14 @@ export class ThreeXRApp {
   }
 
   start() {
-    this.loopFn = (_t: number, frame?: XRFrame) => {
+    this.loopFn = (t: number, frame?: XRFrame) => {
       const refSpace = this.refSpace ?? (this.renderer.xr as any).getReferenceSpace?.();
-      for (const cb of this.onFrameCbs) cb({ frame: frame ?? null, refSpace });
+      const dt = this.lastFrameTime == null ? 0 : Math.min(MAX_FRAME_DT, Math.max(0, (t - this.lastFrameTime) / 1000));
+      this.lastFrameTime = t;
+      for (const cb of this.onFrameCbs) cb({ frame: frame ?? null, refSpace, dt });
       this.renderer.render(this.scene, this.camera);
     };
+    this.lastFrameTime = null;
     this.renderer.setAnimationLoop(this.loopFn);
   }
 
@@ -99,6 +114,8 @@ export class ThreeXRApp {
   resume() {
     if (!this.paused) return;
     this.paused = false;
+    // time spent paused doesn't count as a frame step
+    this.lastFrameTime = null;
     if (this.loopFn) this.renderer.setAnimationLoop(this.loopFn);
     for (const f of this.onResumeCbs) f();
   }
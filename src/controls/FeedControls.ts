@@ -1,9 +1,13 @@
 // src/controls/FeedControls.ts
 import * as THREE from 'three';
 import { HandEngine } from '../gestures/HandEngine';
+import { StopPalmGesture } from '../gestures/StopPalmGesture';
 import { ThreeXRApp } from '../app/ThreeXRApp';
 import { FeedStore } from '../feed/FeedStore';
 import ReactionHudManager from '../ui/ReactionHudManager';
+import type { ReactionKind } from '../ui/ReactionHud';
+import { CommentBridge } from '../integrations/commentBridge';
+import { VirtualKeyboard } from '../ui/VirtualKeyboard';
 
 export class FeedControls {
   // ----- feed scroll -----
@@ -24,6 +28,13 @@ export class FeedControls {
   private readonly SCROLL_START_FAR = 0.2;
   private readonly LPF_SCROLL_ALPHA = 0.22;
 
+  // ----- sequence scrub (horizontal pinch drag on splat4d items) -----
+  private pinchStartPos: THREE.Vector3 | null = null;
+  private scrub: { originX: number; base: number; wasPlaying: boolean } | null = null;
+  private readonly SCRUB_START_DIST = 0.05;  // m sideways before a drag counts as scrub
+  private readonly SCRUB_RANGE = 0.4;        // m of hand travel for the whole timeline
+  private stopPalm: StopPalmGesture;
+
   // transform / grab
   private twoHandActive = false;
   private baseDist = 0;
@@ -71,11 +82,13 @@ export class FeedControls {
     depthWrite: false,  // ✅ valid
   });
 
-  // reaction throttles (incl. repost – fixes spam)
-  private lastLikeAt = 0;
-  private lastHeartAt = 0;
-  private lastRepostAt = 0;
+  // reaction throttles – one pinch can arrive as both select and pinchstart,
+  // which would toggle a reaction on and straight back off
+  private lastReactAt: Record<ReactionKind, number> = { like: 0, heart: 0, repost: 0 };
   private readonly REACT_COOLDOWN_MS = 800;
+  /** `side.gesture` reaction poses that already toggled → when last seen; dropouts shorter than this don't end a hold. */
+  private heldPoses = new Map<string, number>();
+  private readonly POSE_RELEASE_MS = 250;
 
   // UI dwell assist (camera→index finger)
   private readonly DWELL_MS = 350;
@@ -84,6 +97,10 @@ export class FeedControls {
   private uiLastY: number | null = null;
 
   private hudMgr: ReactionHudManager;
+  /** Comments posted from the compose.html tab (see openExternalComposer). */
+  private commentBridge: CommentBridge;
+  /** In-headset comment entry (opened by ReactionHud.beginCommentEntry). */
+  private keyboard: VirtualKeyboard;
   private selectBoundForSession: XRSession | null = null;
 
   // DOM composer input (safer keyboard path)
@@ -109,6 +126,12 @@ export class FeedControls {
       this.store.getObjectWorldPos()
     );
     this.hudMgr.setIcons('/assets/ui/heart.png', '/assets/ui/like.png', '/assets/ui/repost.png');
+    this.hudMgr.setOnSyncError((msg) => this.store.notify(msg));
+    this.keyboard = new VirtualKeyboard(this.app.scene, this.app.camera);
+    this.commentBridge = new CommentBridge(({ key, id, text, author, parentId }) => {
+      this.hudMgr.addComment(key, text, author, parentId, id);
+      this.store.notify('💬 Comment posted');
+    });
 
     // Place HUD close to object (left icons, right comments)
     (this.hudMgr as any).setOffsets?.(
@@ -125,50 +148,42 @@ export class FeedControls {
     this.hands.on('rightpinchend', () => this.onPinchEnd('right'));
 
     // Like / Heart
-    this.hands.on('thumbsupstart', () => {
-      if (!this.acceptGesture('like')) return;
-      const now = performance.now();
-      if (now - this.lastLikeAt < this.REACT_COOLDOWN_MS) return;
-      this.lastLikeAt = now;
-      this.store.likeCurrent();
-      this.hudMgr.bump(this.currentModelKey(), 'like');
-    });
+    this.hands.on('thumbsupstart', ({ side }) => this.reactToPose('thumbsup', 'like', side));
     this.hands.on('heartstart', () => {
-      if (!this.acceptGesture('heart')) return;
-      const now = performance.now();
-      if (now - this.lastHeartAt < this.REACT_COOLDOWN_MS) return;
-      this.lastHeartAt = now;
-      this.store.saveCurrent();
-      this.hudMgr.bump(this.currentModelKey(), 'heart');
+      if (this.acceptGesture('heart')) this.toggleReaction('heart');
     });
 
-    // ILY → open compose (DOM input – safe keyboard)
-this.hands.on('ilystart', () => this.openExternalComposer(''));
+    // ILY → compose (in-headset keyboard in XR, compose tab otherwise)
+    this.hands.on('ilystart', () => this.startCommentEntry());
 
 
-    // Peace → repost (debounced + visual)
-    this.hands.on('peacestart', () => {
-      if (!this.acceptGesture('repost')) return;
-      const now = performance.now();
-      if (now - this.lastRepostAt < this.REACT_COOLDOWN_MS) return;
-      this.lastRepostAt = now;
-      this.store.repostCurrent();
-      this.hudMgr.bump(this.currentModelKey(), 'repost');
-    });
+    // Peace → repost (once per hold + visual)
+    this.hands.on('peacestart', ({ side }) => this.reactToPose('peace', 'repost', side));
+
+    // Stop palm → pause / resume sequences
+    this.stopPalm = new StopPalmGesture(
+      this.hands,
+      this.app.camera,
+      () => this.store.getObjectWorldPos(),
+      (p) => this.distanceToObjectSurface(p)
+    );
+    this.stopPalm.on('stoppalm', () => this.store.togglePlayback());
 
     // WebXR select: pinch-click on UI panel
     this.installSelectHandlers();
 
     // frame
-    let last = performance.now();
-    this.app.onFrame(() => {
+    this.app.onFrame(({ dt }) => {
       const now = performance.now();
-      const dt = Math.max(0, (now - last) / 1000);
-      last = now;
 
       // dwell ray (extra help on runtimes that don’t send select)
       this.updateUiRayAndDwell(now);
 
+      this.stopPalm.tick();
+      this.releaseReactionPoses(now);
+      this.keyboard.poke('left', this.hands.indexTip('left'));
+      this.keyboard.poke('right', this.hands.indexTip('right'));
+      this.keyboard.tick(dt);
       this.updateAutoAcquirePending();
       this.updateScroll(now);
       this.updateTwoHandTransform(dt);
@@ -221,18 +236,91 @@ this.hands.on('ilystart', () => this.openExternalComposer(''));
   }
 
   // --- OPEN EXTERNAL COMPOSER (new tab → native keyboard) ---
-private openExternalComposer(prefill = '') {
+private openExternalComposer(prefill = '', replyToId?: string) {
   try {
     const key = this.currentModelKey();
     const u = new URL('/compose.html', location.origin); // same-origin page
     u.searchParams.set('k', key);
     if (prefill) u.searchParams.set('t', prefill);
+    if (replyToId) u.searchParams.set('r', replyToId);
     window.open(u.toString(), '_blank', 'noopener,noreferrer');
   } catch (e) {
     console.warn('Failed to open compose tab:', e);
   }
 }
 
+  /**
+   * Gesture / HUD reaction: toggles this user's reaction, with feedback only when it turns on.
+   * False if the cooldown swallowed it.
+   */
+  private toggleReaction(kind: ReactionKind, from?: THREE.Vector3, side: 'left' | 'right' = 'right'): boolean {
+    const now = performance.now();
+    if (now - this.lastReactAt[kind] < this.REACT_COOLDOWN_MS) return false;
+    this.lastReactAt[kind] = now;
+
+    this.hudMgr.toggle(this.currentModelKey(), kind).then((on) => {
+      if (!on) {
+        this.store.notify(kind === 'like' ? 'Like removed' : kind === 'heart' ? 'Removed from saved' : 'Repost undone');
+      } else if (kind === 'like') {
+        this.store.likeCurrent(from, side);
+      } else if (kind === 'heart') {
+        this.store.saveCurrent(from);
+      } else {
+        this.store.repostCurrent(from, side);
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Reaction poses report every frame they're held (`repeat`): toggle once per
+   * hold, and not again until that hand lets the pose go (see releaseReactionPoses).
+   */
+  private reactToPose(gesture: string, kind: ReactionKind, side: 'left' | 'right') {
+    const key = `${side}.${gesture}`;
+    const now = performance.now();
+    if (this.heldPoses.has(key)) {
+      this.heldPoses.set(key, now);
+      return;
+    }
+    if (this.acceptGesture(kind) && this.toggleReaction(kind, undefined, side)) this.heldPoses.set(key, now);
+  }
+
+  /** Per frame: forget poses the hand has let go of. */
+  private releaseReactionPoses(now: number) {
+    for (const [key, seenAt] of this.heldPoses) {
+      if (now - seenAt > this.POSE_RELEASE_MS) this.heldPoses.delete(key);
+    }
+  }
+
+  /** In XR the built-in keyboard, otherwise the compose tab. `replyToId` answers that comment. */
+  private startCommentEntry(replyToId?: string) {
+    // already typing: the text field was hit
+    if (this.hudMgr.isComposing()) return;
+    if (!this.app.renderer.xr.isPresenting) {
+      this.openExternalComposer('', replyToId);
+      return;
+    }
+    this.hudMgr.beginCommentEntry('', replyToId);
+  }
+
+  // ---------- Keyboard keys from pinch start (head → pinch ray) ----------
+  private tryPressKeyboard(side: 'left' | 'right'): boolean {
+    if (!this.keyboard.visible) return false;
+    const from = this.hands.pinchMid(side);
+    if (!from) return false;
+    const head = new THREE.Vector3();
+    this.app.camera.getWorldPosition(head);
+    const ray = new THREE.Ray(head, from.clone().sub(head).normalize());
+    if (!this.keyboard.pressRay(ray)) return false;
+
+    this.setRayVisible(side, false);
+    this.scrollDisarmedThisPinch = true;
+    this.grabPending = false;
+    this.grabbing = false;
+    return true;
+  }
+
   // ---------- Try to click HUD directly from pinch start ----------
   private tryClickHud(side: 'left' | 'right'): boolean {
     const from = this.hands.pinchMid(side) ?? this.hands.thumbTip(side);
@@ -248,25 +336,15 @@ private openExternalComposer(prefill = '') {
     // Hide helper ray for this pinch — user clicked UI, not content
     this.setRayVisible(side, false);
 
-    const key = this.currentModelKey();
-    if (hit.kind === 'like') {
-      if (!this.acceptGesture('like')) return true; // handled (swallowed)
-      this.store.likeCurrent(from.clone(), side);
-      this.hudMgr.bump(key, 'like');
-    } else if (hit.kind === 'heart') {
-      if (!this.acceptGesture('heart')) return true;
-      this.store.saveCurrent(from.clone());
-      this.hudMgr.bump(key, 'heart');
-    } else if (hit.kind === 'repost') {
-      if (!this.acceptGesture('repost')) return true;
-      const now = performance.now();
-      if (now - this.lastRepostAt >= this.REACT_COOLDOWN_MS) {
-        this.lastRepostAt = now;
-        this.store.repostCurrent(from.clone(), side);
-        this.hudMgr.bump(key, 'repost');
-      }
+    if (hit.kind === 'like' || hit.kind === 'heart' || hit.kind === 'repost') {
+      // swallowed either way
+      if (this.acceptGesture(hit.kind)) this.toggleReaction(hit.kind, from.clone(), side);
     } else if (hit.kind === 'post' || hit.kind === 'compose') {
-       this.openExternalComposer('');
+      this.startCommentEntry();
+    } else if (hit.kind === 'submit') {
+      this.hudMgr.submitCommentEntry();
+    } else if (hit.kind === 'reply') {
+      this.startCommentEntry(hit.commentId);
     }
 
     // swallow pinch so it doesn't scroll/grab this time
@@ -308,28 +386,18 @@ private openExternalComposer(prefill = '') {
           )
           .normalize();
         const ray = new THREE.Ray(o, d);
+        if (this.keyboard.pressRay(ray)) return;
         const hit = this.hudMgr.raycastHit(ray);
         if (!hit) return;
 
-        const key = this.currentModelKey();
-        if (hit.kind === 'like') {
-          if (!this.acceptGesture('like')) return;
-          this.store.likeCurrent();
-          this.hudMgr.bump(key, 'like');
-        } else if (hit.kind === 'heart') {
-          if (!this.acceptGesture('heart')) return;
-          this.store.saveCurrent();
-          this.hudMgr.bump(key, 'heart');
-        } else if (hit.kind === 'repost') {
-          if (!this.acceptGesture('repost')) return;
-          const now = performance.now();
-          if (now - this.lastRepostAt >= this.REACT_COOLDOWN_MS) {
-            this.lastRepostAt = now;
-            this.store.repostCurrent();
-            this.hudMgr.bump(key, 'repost');
-          }
+        if (hit.kind === 'like' || hit.kind === 'heart' || hit.kind === 'repost') {
+          if (this.acceptGesture(hit.kind)) this.toggleReaction(hit.kind);
         } else if (hit.kind === 'post' || hit.kind === 'compose') {
-          if (hit.kind === 'post' || hit.kind === 'compose') this.openExternalComposer('');
+          this.startCommentEntry();
+        } else if (hit.kind === 'submit') {
+          this.hudMgr.submitCommentEntry();
+        } else if (hit.kind === 'reply') {
+          this.startCommentEntry(hit.commentId);
         }
       };
 
@@ -354,7 +422,8 @@ private openExternalComposer(prefill = '') {
     const ray = new THREE.Ray(camPos, dir);
 
     const hit = this.hudMgr.raycastHit(ray);
-    const hitKind = hit?.kind ?? null;
+    // a plain alias of the discriminant, so checking it narrows `hit` too
+    const hitKind = hit?.kind;
 
     if (hitKind === 'comments') {
       const y = tip.y;
@@ -371,34 +440,23 @@ private openExternalComposer(prefill = '') {
       this.uiLastY = null;
     }
 
-    if (hitKind !== this.uiHoverKind) {
-      this.uiHoverKind = hitKind;
+    if ((hitKind ?? null) !== this.uiHoverKind) {
+      this.uiHoverKind = hitKind ?? null;
       this.uiHoverBeganAt = now;
       return;
     }
-    if (!hitKind) return;
+    if (!hit) return;
 
     if (now - this.uiHoverBeganAt >= this.DWELL_MS) {
       this.uiHoverBeganAt = now + 10000;
-      const key = this.currentModelKey();
-      if (hitKind === 'like') {
-        if (!this.acceptGesture('like')) return;
-        this.store.likeCurrent();
-        this.hudMgr.bump(key, 'like');
-      } else if (hitKind === 'heart') {
-        if (!this.acceptGesture('heart')) return;
-        this.store.saveCurrent();
-        this.hudMgr.bump(key, 'heart');
-      } else if (hitKind === 'repost') {
-        if (!this.acceptGesture('repost')) return;
-        const n = performance.now();
-        if (n - this.lastRepostAt >= this.REACT_COOLDOWN_MS) {
-          this.lastRepostAt = n;
-          this.store.repostCurrent();
-          this.hudMgr.bump(key, 'repost');
-        }
+      if (hitKind === 'like' || hitKind === 'heart' || hitKind === 'repost') {
+        if (this.acceptGesture(hitKind)) this.toggleReaction(hitKind);
       } else if (hitKind === 'post' || hitKind === 'compose') {
-         this.openExternalComposer('');
+        this.startCommentEntry();
+      } else if (hitKind === 'submit') {
+        this.hudMgr.submitCommentEntry();
+      } else if (hitKind === 'reply') {
+        this.startCommentEntry(hit.commentId);
       }
     }
   }
@@ -455,11 +513,13 @@ private openExternalComposer(prefill = '') {
 
   // ---------- pinch lifecycle / feed scroll ----------
   private onPinchStart(side: 'left' | 'right') {
-    // First, try clicking the MR HUD; if it handled, do not show dotted ray.
+    // First, try the keyboard / MR HUD; if it handled, do not show dotted ray.
+    if (this.tryPressKeyboard(side)) return;
     if (this.tryClickHud(side)) return;
 
     this.setRayVisible(side, true);
     this.pinchStartAt = performance.now();
+    this.pinchStartPos = this.hands.pinchMid(side)?.clone() ?? null;
     const y = this.hands.pinchMid(side)?.y ?? null;
     if (y != null) {
       this.lastPinchY = y;
@@ -516,6 +576,8 @@ private openExternalComposer(prefill = '') {
     this.filtPinchY = null;
     this.scrollAccum = 0;
     this.pinchStartAt = null;
+    this.pinchStartPos = null;
+    this.endScrub();
 
     // reset hysteresis when user leaves a gesture interaction
     this.lastStableKind = null;
@@ -534,6 +596,7 @@ private openExternalComposer(prefill = '') {
     if (this.pinchStartAt && now - this.pinchStartAt < this.SCROLL_MIN_HOLD_MS) return;
 
     const mid = this.hands.pinchMid(side);
+    if (mid && this.updateScrub(mid)) return;
     if (mid) {
       const distSurf = this.distanceToObjectSurface(mid);
       if (distSurf != null && distSurf < this.SCROLL_IN_AIR_DIST) {
@@ -565,6 +628,34 @@ private openExternalComposer(prefill = '') {
     }
   }
 
+  // ---------- sequence scrub ----------
+  /** Sideways pinch drag scrubs splat4d playback. True while it owns this pinch. */
+  private updateScrub(mid: THREE.Vector3): boolean {
+    const right = new THREE.Vector3(1, 0, 0).applyQuaternion(this.app.camera.getWorldQuaternion(new THREE.Quaternion()));
+    const x = mid.dot(right);
+
+    if (!this.scrub) {
+      const start = this.pinchStartPos;
+      const pb = this.store.getPlayback();
+      if (!start || !pb) return false;
+      const dx = x - start.dot(right);
+      const dy = mid.y - start.y;
+      if (Math.abs(dx) < this.SCRUB_START_DIST || Math.abs(dx) < 2 * Math.abs(dy)) return false;
+      this.scrub = { originX: x, base: pb.progress, wasPlaying: pb.playing };
+      this.store.setPlaying(false);
+      this.store.notify('Scrubbing');
+    }
+
+    this.store.seek(this.scrub.base + (x - this.scrub.originX) / this.SCRUB_RANGE);
+    return true;
+  }
+
+  private endScrub() {
+    if (!this.scrub) return;
+    if (this.scrub.wasPlaying) this.store.setPlaying(true);
+    this.scrub = null;
+  }
+
   // ---------- two-hand transform ----------
   private updateTwoHandTransform(dt: number) {
     const lp = this.hands.state.left.pinch,
@@ -0,0 +1,107 @@
+// src/feed/ContentCache.ts
+import * as THREE from 'three';
+import type { Content } from './content';
+
+/** Loaded, detachable content for one feed item. */
+export type CachedContent = {
+  key: string;
+  content: Content;
+  bytes: number;
+};
+
+/**
+ * LRU cache of loaded feed content with a byte budget.
+ * Map insertion order doubles as recency order (oldest first).
+ * Pinned keys (what's on screen) are never evicted.
+ */
+export class ContentCache {
+  private entries = new Map<string, CachedContent>();
+  private pinned = new Set<string>();
+  private used = 0;
+
+  constructor(public budgetBytes: number, private onEvict: (c: CachedContent) => void) {}
+
+  get usedBytes() { return this.used; }
+
+  has(key: string) { return this.entries.has(key); }
+
+  /** Get and mark as most recently used. */
+  get(key: string): CachedContent | undefined {
+    const c = this.entries.get(key);
+    if (!c) return undefined;
+    this.entries.delete(key);
+    this.entries.set(key, c);
+    return c;
+  }
+
+  put(c: CachedContent) {
+    const prev = this.entries.get(c.key);
+    if (prev === c) {
+      this.get(c.key);
+      return;
+    }
+    if (prev) this.remove(prev);
+    this.entries.set(c.key, c);
+    this.used += c.bytes;
+    this.trim();
+  }
+
+  /** Replace the set of keys that must stay resident. */
+  setPinned(keys: Iterable<string>) {
+    this.pinned = new Set(keys);
+    this.trim();
+  }
+
+  clear() {
+    for (const c of [...this.entries.values()]) {
+      if (!this.pinned.has(c.key)) this.remove(c);
+    }
+  }
+
+  private trim() {
+    if (this.used <= this.budgetBytes) return;
+    for (const c of [...this.entries.values()]) {
+      if (this.used <= this.budgetBytes) break;
+      if (this.pinned.has(c.key)) continue;
+      this.remove(c);
+    }
+  }
+
+  private remove(c: CachedContent) {
+    this.entries.delete(c.key);
+    this.used -= c.bytes;
+    this.onEvict(c);
+  }
+}
+
+/** Rough GPU/CPU footprint: geometry buffers plus texture pixels. */
+export function estimateBytes(root: THREE.Object3D): number {
+  let bytes = 0;
+  const textures = new Set<THREE.Texture>();
+  root.traverse((n: any) => {
+    const geo = n.geometry as THREE.BufferGeometry | undefined;
+    if (geo?.isBufferGeometry) {
+      for (const attr of Object.values(geo.attributes)) {
+        bytes += (attr as THREE.BufferAttribute).array?.byteLength ?? 0;
+      }
+      if (geo.index) bytes += geo.index.array.byteLength;
+    }
+    const mats: THREE.Material[] = Array.isArray(n.material) ? n.material : n.material ? [n.material] : [];
+    for (const m of mats) {
+      for (const v of Object.values(m)) if (v instanceof THREE.Texture) textures.add(v);
+      // shader materials (e.g. splats) keep their textures in uniforms
+      const uniforms = (m as THREE.ShaderMaterial).uniforms;
+      if (uniforms) for (const u of Object.values(uniforms)) if (u.value instanceof THREE.Texture) textures.add(u.value);
+    }
+  });
+  for (const t of textures) {
+    const img = t.image as { width?: number; height?: number; data?: ArrayBufferView } | undefined;
+    if (img?.data) {
+      bytes += img.data.byteLength;
+      continue;
+    }
+    // ×4/3 for the mip chain
+    if (img?.width && img?.height) bytes += img.width * img.height * 4 * (t.generateMipmaps ? 4 / 3 : 1);
+  }
+  return Math.round(bytes);
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import './content'; // registers the built-in item types
+import { describeIssue, validateFeed } from './FeedSchema';
+import good from './fixtures/feed-good.json';
+import bad from './fixtures/feed-bad.json';
+import shipped from '../../public/feed.json';
+
+describe('validateFeed', () => {
+  it('accepts the shipped public/feed.json', () => {
+    const v = validateFeed(shipped);
+    expect(v.issues).toEqual([]);
+    expect(v.items).toHaveLength(shipped.length);
+  });
+
+  it('accepts every item type in the good fixture', () => {
+    const v = validateFeed(good);
+    expect(v.issues).toEqual([]);
+    expect(v.items.map((i) => i.type)).toEqual(['shape', 'shape', 'splat4d', 'ply', 'mesh', 'video']);
+  });
+
+  it('quarantines bad entries and keeps the rest', () => {
+    const v = validateFeed(bad);
+    expect(v.items.map((i) => i.id)).toEqual(['ok-1', 'ok-2']);
+    expect(v.rejected).toEqual([bad[1], bad[2], bad[3], bad[4]]);
+    expect(v.issues.map(({ index, id, field }) => ({ index, id, field }))).toEqual([
+      { index: 1, id: 'no-frames', field: 'frames' },
+      { index: 2, id: 'bad-shape', field: 'shape' },
+      { index: 3, id: 'bad-color', field: 'color' },
+      { index: 4, id: 'bad-format', field: 'format' },
+    ]);
+  });
+
+  it('names the failing field in describeIssue', () => {
+    const lines = validateFeed(bad).issues.map(describeIssue);
+    expect(lines[0]).toMatch(/^item 2 \(no-frames\): "frames" /);
+    expect(lines[1]).toMatch(/"shape" must be one of box, sphere, pyramid/);
+    expect(lines[2]).toMatch(/"color" must be a hex color/);
+    expect(lines[3]).toMatch(/"format" must be one of /);
+  });
+
+  it('rejects duplicate and already-known ids', () => {
+    const item = { id: 'a', title: 't', author: 'x', type: 'shape', shape: 'box' };
+    const v = validateFeed([item, item, { ...item, id: 'b' }], new Set(['b']));
+    expect(v.items).toHaveLength(1);
+    expect(v.issues.map((i) => [i.index, i.field])).toEqual([[1, 'id'], [2, 'id']]);
+  });
+
+  it('reports a feed that is not an array', () => {
+    const v = validateFeed({ items: [] });
+    expect(v.items).toEqual([]);
+    expect(describeIssue(v.issues[0])).toBe('feed: "feed" must be an array of items');
+  });
+});
@@ -0,0 +1,88 @@
+// src/feed/FeedSchema.ts
+// Runtime checks for feed.json – the JSON is untrusted, the Item union is not.
+// Type-specific fields are checked by each registered content type's parse().
+import type { SplatFormat } from './splats/decodeSplats';
+import { getContentType, contentTypeNames } from './content/ContentType';
+import { FieldError, isObj, str, optStr } from './content/fields';
+
+export type ShapeKind = 'box' | 'sphere' | 'pyramid';
+
+/** Fields every item has, whatever its type. */
+export type ItemBase = {
+  id: string;
+  title: string;
+  author: string;
+  /** Soundtrack while the item is shown; time-based playback follows its clock. */
+  audio?: string;
+};
+
+export type ShapeItem = ItemBase & { type: 'shape'; shape: ShapeKind; color?: string };
+export type Splat4dItem = ItemBase & { type: 'splat4d'; fps: number; frames: string[]; format?: SplatFormat };
+export type PlyItem = ItemBase & { type: 'ply'; src: string; format?: SplatFormat };
+export type MeshItem = ItemBase & { type: 'mesh'; src: string };
+
+/**
+ * Item shape per content type. Types registered elsewhere add theirs with
+ * `declare module '.../FeedSchema' { interface ItemTypes { video: VideoItem } }`.
+ */
+export interface ItemTypes {
+  shape: ShapeItem;
+  splat4d: Splat4dItem;
+  ply: PlyItem;
+  mesh: MeshItem;
+}
+
+export type ItemType = keyof ItemTypes;
+export type Item = ItemTypes[ItemType];
+
+/** One rejected feed entry and the first field that failed. */
+export type FeedIssue = { index: number; id?: string; field: string; message: string };
+
+export type FeedValidation = { items: Item[]; rejected: unknown[]; issues: FeedIssue[] };
+
+/** Validate a single entry; throws FieldError on the first bad field. */
+function parseItem(raw: unknown): Item {
+  if (!isObj(raw)) throw new FieldError('item', 'must be an object');
+  const base: ItemBase = { id: str(raw, 'id'), title: str(raw, 'title'), author: str(raw, 'author') };
+  const audio = optStr(raw, 'audio');
+  if (audio) base.audio = audio;
+
+  const def = typeof raw.type === 'string' ? getContentType(raw.type) : undefined;
+  if (!def) throw new FieldError('type', `must be one of ${contentTypeNames().join(', ')}`);
+  return def.parse(raw, base);
+}
+
+/**
+ * Split a parsed feed into valid items and quarantined entries.
+ * Duplicate ids are rejected too, since per-item UI state is keyed on them;
+ * pass `knownIds` to also reject ids already loaded from earlier pages.
+ */
+export function validateFeed(raw: unknown, knownIds?: ReadonlySet<string>): FeedValidation {
+  const out: FeedValidation = { items: [], rejected: [], issues: [] };
+  if (!Array.isArray(raw)) {
+    out.issues.push({ index: -1, field: 'feed', message: 'must be an array of items' });
+    return out;
+  }
+
+  const seen = new Set<string>(knownIds);
+  raw.forEach((entry, index) => {
+    const id = isObj(entry) && typeof entry.id === 'string' ? entry.id : undefined;
+    try {
+      const item = parseItem(entry);
+      if (seen.has(item.id)) throw new FieldError('id', `duplicate id "${item.id}"`);
+      seen.add(item.id);
+      out.items.push(item);
+    } catch (e) {
+      const field = e instanceof FieldError ? e.field : 'item';
+      out.rejected.push(entry);
+      out.issues.push({ index, id, field, message: (e as Error).message });
+    }
+  });
+  return out;
+}
+
+/** Short human-readable line for the HUD toast. */
+export function describeIssue(issue: FeedIssue): string {
+  const where = issue.index < 0 ? 'feed' : `item ${issue.index + 1}${issue.id ? ` (${issue.id})` : ''}`;
+  return `${where}: "${issue.field}" ${issue.message}`;
+}
@@ -0,0 +1,39 @@
+// src/feed/FeedSource.ts
+
+/** One page of raw (unvalidated) feed entries. `next` is null on the last page. */
+export type FeedPage = { entries: unknown[]; next: string | null };
+
+/** Where feed items come from. `cursor` is whatever the previous page returned as `next`. */
+export interface FeedSource {
+  fetchPage(cursor: string | null): Promise<FeedPage>;
+}
+
+/**
+ * JSON over HTTP. Accepts either a plain array (single page, legacy feed.json)
+ * or `{ items, nextCursor }` / `{ items, nextPage }`:
+ *  - nextCursor: opaque token, sent back as `?cursor=…` on the base URL
+ *  - nextPage:   URL of the next page, relative to the current one
+ */
+export class JsonFeedSource implements FeedSource {
+  constructor(private url = '/feed.json') {}
+
+  async fetchPage(cursor: string | null): Promise<FeedPage> {
+    const pageUrl = new URL(cursor ?? this.url, location.href);
+    const res = await fetch(pageUrl);
+    if (!res.ok) throw new Error(`Feed request failed (${res.status})`);
+    const body = await res.json();
+
+    if (Array.isArray(body)) return { entries: body, next: null };
+    if (!body || !Array.isArray(body.items)) throw new Error('Feed page has no "items" array');
+
+    let next: string | null = null;
+    if (typeof body.nextPage === 'string' && body.nextPage) {
+      next = new URL(body.nextPage, pageUrl).toString();
+    } else if (typeof body.nextCursor === 'string' && body.nextCursor) {
+      const u = new URL(this.url, location.href);
+      u.searchParams.set('cursor', body.nextCursor);
+      next = u.toString();
+    }
+    return { entries: body.items, next };
+  }
+}
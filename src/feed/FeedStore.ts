@@ -1,17 +1,36 @@
 import * as THREE from 'three';
-import { SplatSequence } from './loaders/SplatSequence';
-
-type ShapeKind = 'box' | 'sphere' | 'pyramid';
-
-type Item =
-  | { id: string; title: string; author: string; type: 'shape'; shape: ShapeKind; color?: string }
-  | { id: string; title: string; author: string; type: 'splat4d'; fps: number; frames: string[] }
-  | { id: string; title: string; author: string; type: 'ply'; src: string }
-  | { id: string; title: string; author: string; type: 'mesh'; src: string };
+import { LoopMode, MIN_SPEED, MAX_SPEED } from './loaders/SplatSequence';
+import { Content, ContentContext, Playback, getContentType, objectContent } from './content';
+import { validateFeed, describeIssue, FeedIssue, Item } from './FeedSchema';
+import { FeedSource, JsonFeedSource } from './FeedSource';
+import { ContentCache, CachedContent, estimateBytes } from './ContentCache';
+import { GlobalPlayer } from '../integrations/player';
+import { DEFAULT_TRANSITION, TransitionOptions, TransitionPose, transitionPose, setOpacity } from './Transitions';
+
+/** Playback state of the shown time-based item (see FeedStore.getPlayback). */
+export type PlaybackState = {
+  playing: boolean;
+  buffering: boolean;
+  speed: number;
+  loop: LoopMode;
+  /** 0..1 */
+  progress: number;
+  frame: number;
+  frameCount: number;
+};
 
 export class FeedStore {
   items: Item[] = [];
   index = 0;
+  /** Entries from the current feed that failed validation. */
+  rejected: { entry: unknown; issue: FeedIssue }[] = [];
+
+  private source?: FeedSource;
+  private nextCursor: string | null = null;
+  private pageLoading?: Promise<void>;
+  /** The first page of the current feed failed (vs. an empty feed). */
+  private feedFailed = false;
+  private readonly PREFETCH_AHEAD = 3;
 
   private _scale = 1;
   private _rotY = 0;
@@ -19,7 +38,31 @@ export class FeedStore {
   private targetRotY = 0;
   private lastPlaced?: THREE.Vector3;
 
-  private seq?: SplatSequence;
+  private current?: CachedContent;
+  private showingKey?: string;
+  private cache: ContentCache;
+  private loading = new Map<string, Promise<CachedContent>>();
+  private warming: Promise<void> = Promise.resolve();
+  private preloadRadius: number;
+
+  // scroll transitions: old item animates out while the new one animates in
+  private transition: TransitionOptions = { ...DEFAULT_TRANSITION };
+  private pendingDir = 0;
+  private incoming?: { t: number; dir: number };
+  private outgoing: { content: CachedContent; t: number; dir: number; from: THREE.Vector3 }[] = [];
+
+  // user's playback choices carry over from item to item
+  private playbackSpeed = 1;
+  private loopMode: LoopMode = 'loop';
+  private player?: GlobalPlayer;
+  /** Shown playback whose item has its own `audio` track. */
+  private scored?: Playback;
+  /** `scored` while it follows the player's clock (see syncAudio). */
+  private synced?: Playback;
+  /** Content paused by suspend(), resumed by resume(). */
+  private suspended?: Content;
+  private contentCtx: ContentContext;
+
   private onHud?: (t: string) => void;
   private parent: THREE.Object3D;
 
@@ -41,9 +84,30 @@ export class FeedStore {
     metalness: 0,
   });
 
-  constructor(parent: THREE.Object3D, onHud?: (text: string) => void) {
+  constructor(
+    parent: THREE.Object3D,
+    onHud?: (text: string) => void,
+    opts: { preloadRadius?: number; cacheBudgetBytes?: number; player?: GlobalPlayer } = {}
+  ) {
     this.parent = parent;
     this.onHud = onHud;
+    this.player = opts.player;
+    this.preloadRadius = Math.max(0, opts.preloadRadius ?? 1);
+    this.cache = new ContentCache(opts.cacheBudgetBytes ?? 192 * 1024 * 1024, (c) => {
+      this.parent.remove(c.content.root);
+      c.content.dispose();
+    });
+    this.contentCtx = {
+      parent,
+      // cached content is paused, so this only fires for what's on screen
+      buffering: (content, on) => {
+        if (this.current?.content !== content) return;
+        if (on) this.toast('Buffering…');
+        // keep the audio where the picture is
+        if (content.playback && this.synced === content.playback) this.player?.hold(on);
+      },
+      routeAudio: (el, anchor) => this.player?.attachElement(el, anchor),
+    };
   }
 
   get scale() { return this._scale; }
@@ -55,76 +119,327 @@ export class FeedStore {
     return item?.id ?? `item-${this.index}`;
   }
 
-  async loadFeed(url = '/feed.json') {
-    const res = await fetch(url);
-    this.items = await res.json();
+  /** True while the source has pages that haven't been fetched yet. */
+  get hasMore() { return this.nextCursor !== null; }
+
+  async loadFeed(source: FeedSource | string = '/feed.json') {
+    this.source = typeof source === 'string' ? new JsonFeedSource(source) : source;
+    this.items = [];
+    this.rejected = [];
+    this.index = 0;
+    this.nextCursor = null;
+    this.pageLoading = undefined;
+    this.feedFailed = false;
+    await this.fetchPage(null, true);
+    this.maybePrefetch();
+  }
+
+  /** Fetch and append the next page (no-op if one is in flight or there is none). */
+  loadNextPage(): Promise<void> {
+    if (this.pageLoading) return this.pageLoading;
+    if (this.nextCursor === null) return Promise.resolve();
+    return this.fetchPage(this.nextCursor, false);
+  }
+
+  private fetchPage(cursor: string | null, first: boolean): Promise<void> {
+    const source = this.source;
+    if (!source) return Promise.resolve();
+    const p = source
+      .fetchPage(cursor)
+      .then(({ entries, next }) => {
+        if (source !== this.source) return; // feed was reloaded meanwhile
+        const known = new Set(this.items.map((it) => it.id));
+        const { items, rejected, issues } = validateFeed(entries, known);
+        // append only – keeps `index` pointing at the same item
+        this.items.push(...items);
+        this.rejected.push(...rejected.map((entry, i) => ({ entry, issue: issues[i] })));
+        this.nextCursor = next;
+        this.reportIssues(issues, first);
+      })
+      .catch((e) => {
+        if (source !== this.source) return;
+        if (first) {
+          // nothing to show at all – showCurrent() reports it instead of "No items"
+          console.warn('Feed failed to load:', e);
+          this.feedFailed = true;
+          this.toast('Could not load the feed');
+          return;
+        }
+        console.warn('Feed page failed to load:', e);
+        this.toast('Could not load more items');
+      })
+      .finally(() => {
+        if (this.pageLoading === p) this.pageLoading = undefined;
+      });
+    this.pageLoading = p;
+    return p;
+  }
+
+  private reportIssues(issues: FeedIssue[], delayed: boolean) {
+    for (const issue of issues) console.warn('Feed item rejected:', describeIssue(issue));
+    if (!issues.length) return;
+    const more = issues.length > 1 ? ` (+${issues.length - 1} more)` : '';
+    const msg = `Skipped bad feed entry – ${describeIssue(issues[0])}${more}`;
+    // first page: delayed so the first item's title toast doesn't overwrite it
+    if (delayed) setTimeout(() => this.toast(msg), 1500);
+    else this.toast(msg);
+  }
+
+  /** Start fetching the next page once the user is within PREFETCH_AHEAD items of the end. */
+  private maybePrefetch() {
+    if (this.hasMore && this.items.length - 1 - this.index <= this.PREFETCH_AHEAD) {
+      this.loadNextPage();
+    }
   }
 
   async showCurrent() {
     const item = this.items[this.index];
     if (!item) {
-      this.toast('No items in feed');
+      this.toast(this.feedFailed ? 'Could not load the feed' : 'No items in feed');
       this.parent.children.forEach((c) => {
         if (c.name === 'content-platform') c.visible = false;
       });
       return;
     }
 
-    if (this.seq) {
-      this.seq.dispose();
-      this.seq = undefined;
+    // previous item animates out, then goes back to the cache (detached, paused)
+    const dir = this.pendingDir;
+    this.pendingDir = 0;
+    this.retireCurrent(dir);
+    this.showingKey = item.id;
+    this.updatePins();
+
+    let content: CachedContent;
+    try {
+      content = await this.acquire(item);
+    } catch (e) {
+      console.warn('Failed to load item:', item.id, e);
+      this.toast(`Could not load ${item.title}`);
+      // placeholder so platform / grab still work (not cached)
+      const root = new THREE.Mesh(
+        new THREE.BoxGeometry(0.4, 0.4, 0.4),
+        new THREE.MeshStandardMaterial({ color: 0x66ccff })
+      );
+      content = { key: item.id, content: objectContent(root), bytes: 0 };
     }
 
-    // remove prior content meshes
-    this.parent.children.slice().forEach((child) => {
-      if (child.name === 'content-shape' || child.name === 'content-mesh') {
-        this.parent.remove(child);
-        (child as any).geometry?.dispose?.();
-        (child as any).material?.dispose?.();
-      }
-    });
+    // user scrolled on while this was loading – it stays cached for later
+    if (this.items[this.index] !== item) {
+      if (!this.cache.has(content.key)) content.content.dispose();
+      return;
+    }
+    this.detachCurrent();
+    // scrolled back to an item that was still animating out
+    const back = this.outgoing.findIndex((o) => o.content === content);
+    if (back >= 0) this.finishOutgoing(back, false);
 
     // spawn at lastPlaced (if any) otherwise at origin
     const spawnPos = this.lastPlaced ? this.lastPlaced.clone() : new THREE.Vector3(0, 0, 0);
-
-    if (item.type === 'shape') {
-      const obj = this.makeShape(item.shape, item.color);
-      obj.name = 'content-shape';
-      obj.position.copy(spawnPos);
-      obj.rotation.y = this._rotY;
-      obj.scale.setScalar(this._scale);
-      this.parent.add(obj);
-    } else if (item.type === 'splat4d') {
-      this.seq = new SplatSequence(this.parent, item.frames, item.fps);
-      await this.seq.ready;
-      this.seq.setTransform(this._scale, this._rotY);
-      this.seq.setPosition(spawnPos);
-    } else if (item.type === 'ply') {
-      this.seq = new SplatSequence(this.parent, [item.src], 0);
-      await this.seq.ready;
-      this.seq.setTransform(this._scale, this._rotY);
-      this.seq.setPosition(spawnPos);
-    } else {
-      // generic mesh fallback
-      const geo = new THREE.BoxGeometry(0.4, 0.4, 0.4);
-      const mat = new THREE.MeshStandardMaterial({ color: 0x66ccff });
-      const mesh = new THREE.Mesh(geo, mat);
-      mesh.name = 'content-mesh';
-      mesh.position.copy(spawnPos);
-      this.parent.add(mesh);
+    const c = content.content;
+    c.root.name = 'content-item';
+    c.setPosition(spawnPos);
+    c.setTransform(this._scale, this._rotY);
+    this.parent.add(c.root);
+    const pb = c.playback;
+    if (pb) {
+      pb.setSpeed(this.playbackSpeed);
+      pb.setLoopMode(this.loopMode);
+      pb.seek(0);
+      pb.setPlaying(true);
+    }
+    this.current = content;
+    this.syncAudio(item, c);
+    this.incoming = undefined;
+    if (dir !== 0 && this.transition.kind !== 'none') {
+      this.incoming = { t: 0, dir };
+      this.applyPose(c, transitionPose(this.transition.kind, 'in', 0, dir), spawnPos);
     }
 
     this.ensurePlatform();
     this.updatePlatformPose();
 
     this.toast(`${item.title} — @${item.author}`);
+    this.warmNeighbours();
+  }
+
+  /**
+   * Switch to the item's soundtrack; time-based items with their own audio
+   * then follow its clock, frame = track time × fps through the loop mode:
+   * - loop: the track loops at its own length. A longer track sees the frames
+   *   wrap before it does; a shorter one restarts them before the last frame.
+   * - once: the track doesn't loop and the run is over when it ends – on the
+   *   last frame, or wherever a shorter track left the frames.
+   * - pingpong: the track can't run backwards, so the frames leave its clock
+   *   and bounce on frame time over the looping track.
+   */
+  private syncAudio(item: Item, content: Content) {
+    const player = this.player;
+    if (!player) return;
+    player.anchorTo(content.root);
+    this.synced?.setClock(null);
+    this.synced = undefined;
+
+    const pb = item.audio ? content.playback : undefined;
+    this.scored = pb;
+    player.setRate(pb ? this.playbackSpeed : 1);
+    player.setLoop(this.loopMode !== 'once');
+    const started = player.setTrack(item.audio ?? null);
+    if (!item.audio && content.audible?.()) player.hold(true);
+    if (!pb || this.loopMode === 'pingpong') return;
+    pb.setClock(player);
+    this.synced = pb;
+    started.then((ok) => {
+      // autoplay blocked (no user gesture yet): run on frame time until the user presses play
+      if (!ok && this.synced === pb && !player.isPlaying) {
+        pb.setClock(null);
+        this.synced = undefined;
+      }
+    });
+  }
+
+  /** Cached content for `item`, joining an in-flight load if there is one. */
+  private acquire(item: Item): Promise<CachedContent> {
+    const hit = this.cache.get(item.id);
+    if (hit) return Promise.resolve(hit);
+
+    let p = this.loading.get(item.id);
+    if (!p) {
+      p = this.loadContent(item)
+        .then((c) => {
+          this.cache.put(c);
+          return c;
+        })
+        .finally(() => this.loading.delete(item.id));
+      this.loading.set(item.id, p);
+    }
+    return p;
+  }
+
+  /** Build detached content for an item (not added to the scene). */
+  private async loadContent(item: Item): Promise<CachedContent> {
+    const type = getContentType(item.type);
+    if (!type) throw new Error(`No content type registered for "${item.type}"`);
+    const content = await type.load(item, this.contentCtx);
+    return { key: item.id, content, bytes: estimateBytes(content.root) };
+  }
+
+  private detachCurrent() {
+    const c = this.current;
+    if (!c) return;
+    this.current = undefined;
+    this.incoming = undefined;
+    this.release(c);
+  }
+
+  /** Take the shown item off screen – animated when we got here by scrolling. */
+  private retireCurrent(dir: number) {
+    const c = this.current;
+    if (!c) return;
+    if (dir === 0 || this.transition.kind === 'none') {
+      this.detachCurrent();
+      return;
+    }
+    this.current = undefined;
+    // restart from the rest pose if it was still animating in
+    this.incoming = undefined;
+    this.applyPose(c.content, { offsetY: 0, scale: 1, opacity: 1 }, this.lastPlaced);
+    this.outgoing.push({ content: c, t: 0, dir, from: c.content.root.position.clone() });
+  }
+
+  /** Outgoing item is done (or reclaimed): reset its visuals and, unless reclaimed, release it. */
+  private finishOutgoing(i: number, release = true) {
+    const [o] = this.outgoing.splice(i, 1);
+    const c = o.content.content;
+    c.setPosition(o.from);
+    c.setTransform(this._scale, c.root.rotation.y);
+    setOpacity(c.root, 1);
+    if (release) this.release(o.content);
+    this.updatePins();
+  }
+
+  private release(c: CachedContent) {
+    this.parent.remove(c.content.root);
+    c.content.playback?.setPlaying(false);
+    if (!this.cache.has(c.key)) c.content.dispose();
+  }
+
+  /** Keep the shown item and everything still animating resident. */
+  private updatePins() {
+    const keys = this.outgoing.map((o) => o.content.key);
+    if (this.showingKey) keys.push(this.showingKey);
+    this.cache.setPinned(keys);
+  }
+
+  private applyPose(c: Content, pose: TransitionPose, base?: THREE.Vector3) {
+    if (base) c.setPosition(new THREE.Vector3(base.x, base.y + pose.offsetY, base.z));
+    c.setTransform(this._scale * pose.scale, c.root.rotation.y);
+    setOpacity(c.root, pose.opacity);
+  }
+
+  /** Configure scroll transitions (kind, duration in seconds, easing). */
+  setTransition(opts: Partial<TransitionOptions>) {
+    this.transition = { ...this.transition, ...opts };
+    this.transition.duration = Math.max(0, this.transition.duration);
+  }
+
+  /** Preload prev/next PRELOAD_RADIUS items one at a time in the background. */
+  private warmNeighbours() {
+    const n = this.items.length;
+    if (!n) return;
+    const keys: Item[] = [];
+    for (let d = 1; d <= this.preloadRadius; d++) {
+      for (const i of [this.index + d, this.index - d]) {
+        if (this.hasMore && (i < 0 || i >= n)) continue;
+        const it = this.items[(i + n) % n];
+        if (it && !keys.includes(it)) keys.push(it);
+      }
+    }
+    // neighbours are more valuable than older history, so touch them in order
+    for (const it of keys) this.cache.get(it.id);
+
+    this.warming = this.warming.then(async () => {
+      for (const it of keys) {
+        if (this.cache.has(it.id)) continue;
+        if (!this.isNear(it)) continue; // user moved on
+        await this.acquire(it).catch((e) => console.warn('Preload failed:', it.id, e));
+      }
+    });
+  }
+
+  private isNear(item: Item) {
+    const i = this.items.indexOf(item);
+    const n = this.items.length;
+    if (i < 0) return false;
+    const d = Math.abs(i - this.index);
+    return Math.min(d, n - d) <= this.preloadRadius;
   }
 
   next(delta: number) {
     if (!this.items.length) return;
-    this.index = (this.index + delta + this.items.length) % this.items.length;
+    const target = this.index + delta;
+
+    // only wrap around once the whole feed is loaded
+    if (this.hasMore && target < 0) return;
+    if (this.hasMore && target >= this.items.length) {
+      this.toast('Loading more…');
+      const from = this.index;
+      this.loadNextPage().then(() => {
+        // the user moved on while the page loaded – that jump is stale
+        if (this.index !== from) return;
+        if (from + delta < this.items.length) this.goTo(from + delta, delta);
+      });
+      return;
+    }
+
+    this.goTo((target + this.items.length) % this.items.length, delta);
+  }
+
+  private goTo(index: number, dir: number) {
+    this.index = index;
+    this.pendingDir = Math.sign(dir);
     this.setTargetTransform(1, 0);
     this.showCurrent();
+    this.maybePrefetch();
   }
 
   setTargetTransform(scale: number, rotY: number) {
@@ -135,12 +450,7 @@ export class FeedStore {
   setTransform(scale: number, rotY: number) {
     this._scale = THREE.MathUtils.clamp(scale, 0.15, 8);
     this._rotY = rotY;
-    const obj = this.getObject();
-    if (obj) {
-      obj.scale.setScalar(this._scale);
-      obj.rotation.y = this._rotY;
-    }
-    if (this.seq) this.seq.setTransform(this._scale, this._rotY);
+    this.current?.content.setTransform(this._scale, this._rotY);
     this.updatePlatformPose();
   }
 
@@ -149,12 +459,14 @@ export class FeedStore {
     this._scale += (this.targetScale - this._scale) * k;
     this._rotY += (this.targetRotY - this._rotY) * k;
 
-    const obj = this.getObject();
-    if (obj) {
-      obj.scale.setScalar(this._scale);
-      obj.rotation.y = this._rotY;
-    }
-    if (this.seq) this.seq.setTransform(this._scale, this._rotY);
+    // while animating in, tickTransitions sets the scale
+    if (!this.incoming) this.current?.content.setTransform(this._scale, this._rotY);
+
+    this.tickTransitions(dt);
+
+    // content animates on the app's frame clock (outgoing items keep going while they animate out)
+    this.current?.content.tick(dt);
+    for (const o of this.outgoing) o.content.content.tick(dt);
 
     // update transient effects
     for (let i = this.effects.length - 1; i >= 0; --i) {
@@ -199,19 +511,39 @@ export class FeedStore {
     }
   }
 
+  private tickTransitions(dt: number) {
+    const { kind, duration, easing } = this.transition;
+    const step = duration > 0 ? dt / duration : 1;
+
+    if (this.incoming && this.current) {
+      const inc = this.incoming;
+      inc.t = Math.min(1, inc.t + step);
+      const base = this.lastPlaced ?? new THREE.Vector3();
+      this.current.content.root.rotation.y = this._rotY;
+      this.applyPose(this.current.content, transitionPose(kind, 'in', easing(inc.t), inc.dir), base);
+      if (inc.t >= 1) this.incoming = undefined;
+      this.updatePlatformPose();
+    }
+
+    for (let i = this.outgoing.length - 1; i >= 0; --i) {
+      const o = this.outgoing[i];
+      o.t = Math.min(1, o.t + step);
+      if (o.t >= 1) {
+        this.finishOutgoing(i);
+        continue;
+      }
+      this.applyPose(o.content.content, transitionPose(kind, 'out', easing(o.t), o.dir), o.from);
+    }
+  }
+
   setPosition(worldPos: THREE.Vector3) {
-    const obj = this.getObject();
-    if (obj) obj.position.copy(worldPos);
-    if (this.seq) this.seq.setPosition(worldPos);
+    this.current?.content.setPosition(worldPos);
     this.lastPlaced = worldPos.clone();
     this.updatePlatformPose();
   }
 
   getObject(): THREE.Object3D | undefined {
-    const found = this.parent.children.find(
-      (c) => c.name === 'content-shape' || c.name === 'content-mesh'
-    );
-    if (found) return found;
+    if (this.current) return this.current.content.root;
 
     const plat = this.parent.children.find((c) => c.name === 'content-platform');
     if (plat) return plat;
@@ -229,13 +561,108 @@ export class FeedStore {
   getObjectBounds(): { center: THREE.Vector3; radius: number; box: THREE.Box3 } | null {
     const obj = this.getObject();
     if (!obj || !obj.visible) return null;
-    const box = new THREE.Box3().setFromObject(obj);
+    const box = this.current ? this.current.content.getBounds() : new THREE.Box3().setFromObject(obj);
+    if (!box) return null;
     const center = box.getCenter(new THREE.Vector3());
     const size = box.getSize(new THREE.Vector3());
     const radius = size.length() * 0.5;
     return { center, radius, box };
   }
 
+  // ---------- Playback (time-based items) ----------
+  /** Null unless the shown item has playback (e.g. splat4d). */
+  getPlayback(): PlaybackState | null {
+    const pb = this.current?.content.playback;
+    if (!pb) return null;
+    return {
+      playing: pb === this.synced ? !!this.player?.isPlaying : pb.isPlaying,
+      buffering: pb.isBuffering,
+      speed: pb.playbackSpeed,
+      loop: pb.loopMode,
+      progress: pb.progress,
+      frame: pb.frameIndex,
+      frameCount: pb.frameCount,
+    };
+  }
+
+  /** Audio-synced items play/pause their soundtrack instead. */
+  setPlaying(on: boolean) {
+    const pb = this.current?.content.playback;
+    if (!pb) return;
+    if (pb !== this.synced) pb.setPlaying(on);
+    const player = this.player;
+    if (pb !== this.scored || !player) return;
+    if (!on) return player.pause();
+    player.play().then((ok) => {
+      // e.g. autoplay was blocked before: the frames take the clock back
+      if (ok && pb === this.scored && !this.synced && this.loopMode !== 'pingpong') this.follow(pb);
+    });
+  }
+
+  togglePlayback() {
+    const state = this.getPlayback();
+    if (!state) return;
+    // a finished 'once' run starts over (a synced one ends with its track)
+    const synced = !!this.synced && this.synced === this.current?.content.playback;
+    const over = synced ? !!this.player?.ended : state.progress >= 1;
+    if (!state.playing && state.loop === 'once' && over) this.seek(0);
+    this.setPlaying(!state.playing);
+    this.toast(state.playing ? '⏸ Paused' : '▶︎ Playing');
+  }
+
+  /** 0..1 along the shown item. */
+  seek(progress: number) {
+    const pb = this.current?.content.playback;
+    if (!pb) return;
+    if (pb === this.synced) this.player?.seek(pb.timeAt(progress));
+    pb.seek(progress);
+  }
+
+  setPlaybackSpeed(speed: number) {
+    this.playbackSpeed = THREE.MathUtils.clamp(speed, MIN_SPEED, MAX_SPEED);
+    const pb = this.current?.content.playback;
+    pb?.setSpeed(this.playbackSpeed);
+    if (pb && pb === this.synced) this.player?.setRate(this.playbackSpeed);
+  }
+
+  setLoopMode(mode: LoopMode) {
+    this.loopMode = mode;
+    const pb = this.current?.content.playback;
+    pb?.setLoopMode(mode);
+    const player = this.player;
+    if (!pb || pb !== this.scored || !player) return;
+    player.setLoop(mode !== 'once');
+    if (mode === 'pingpong' && this.synced) {
+      // frames run on by themselves from where the clock had them
+      pb.setClock(null);
+      pb.setPlaying(player.isPlaying);
+      this.synced = undefined;
+    } else if (mode !== 'pingpong' && !this.synced && player.isPlaying) {
+      this.follow(pb);
+    }
+  }
+
+  /** Put the track where the frames are and let them follow it. */
+  private follow(pb: Playback) {
+    if (!this.player) return;
+    this.player.seek(pb.timeAt(pb.progress));
+    pb.setClock(this.player);
+    this.synced = pb;
+  }
+
+  /** App paused (tab hidden, headset off): stop the shown item until resume(). */
+  suspend() {
+    const c = this.current?.content;
+    if (!c || c === this.suspended) return;
+    this.suspended = c;
+    c.pause?.();
+  }
+
+  resume() {
+    if (this.suspended && this.suspended === this.current?.content) this.suspended.resume?.();
+    this.suspended = undefined;
+  }
+
   // ---------- Reactions ----------
   likeCurrent(fromHand?: THREE.Vector3, _side: 'left' | 'right' = 'right') {
     this.toast('👍 Liked');
@@ -370,31 +797,4 @@ export class FeedStore {
     const speed = Math.max(0.0001, dist / 0.35);
     this.effects.push({ sprite: spr, vel: dir.multiplyScalar(speed), life: 0.45, tex });
   }
-
-  // ---------- Shapes ----------
-  private makeShape(kind: ShapeKind, colorHex?: string) {
-    const color = new THREE.Color(colorHex ?? '#66ccff');
-    const mat = new THREE.MeshStandardMaterial({
-      color,
-      roughness: 0.4,
-      metalness: 0.0,
-      emissive: 0x000000,
-    });
-    let geo: THREE.BufferGeometry;
-    switch (kind) {
-      case 'box':
-        geo = new THREE.BoxGeometry(0.4, 0.4, 0.4);
-        break;
-      case 'sphere':
-        geo = new THREE.SphereGeometry(0.25, 32, 16);
-        break;
-      case 'pyramid':
-        geo = new THREE.ConeGeometry(0.28, 0.5, 4);
-        break;
-      default:
-        geo = new THREE.BoxGeometry(0.4, 0.4, 0.4);
-        break;
-    }
-    return new THREE.Mesh(geo, mat);
-  }
 }
@@ -0,0 +1,83 @@
+// src/feed/Transitions.ts
+import * as THREE from 'three';
+
+export type TransitionKind = 'slide' | 'crossfade' | 'scale' | 'none';
+export type Easing = (t: number) => number;
+
+export type TransitionOptions = {
+  kind: TransitionKind;
+  /** seconds */
+  duration: number;
+  easing: Easing;
+};
+
+export const Easings = {
+  linear: (t: number) => t,
+  easeOutCubic: (t: number) => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  easeOutBack: (t: number) => {
+    const c1 = 1.70158, c3 = c1 + 1;
+    return 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2);
+  },
+};
+
+export const DEFAULT_TRANSITION: TransitionOptions = {
+  kind: 'slide',
+  duration: 0.35,
+  easing: Easings.easeOutCubic,
+};
+
+/** How far (m) items travel when sliding in/out. */
+const SLIDE_DIST = 0.35;
+/** Scale factor items grow from / shrink to. */
+const SCALE_FROM = 0.55;
+
+/** Visual state of an item at progress `p` (0..1, eased) of entering or leaving. */
+export type TransitionPose = { offsetY: number; scale: number; opacity: number };
+
+/**
+ * `dir` is the scroll direction passed to FeedStore.next(): +1 moves the
+ * feed up (new item comes from above), -1 down (new item comes from below).
+ */
+export function transitionPose(kind: TransitionKind, phase: 'in' | 'out', p: number, dir: number): TransitionPose {
+  const pose: TransitionPose = { offsetY: 0, scale: 1, opacity: 1 };
+  const s = dir >= 0 ? 1 : -1;
+  switch (kind) {
+    case 'slide':
+      pose.offsetY = phase === 'in' ? s * SLIDE_DIST * (1 - p) : -s * SLIDE_DIST * p;
+      pose.opacity = phase === 'in' ? p : 1 - p;
+      break;
+    case 'crossfade':
+      pose.opacity = phase === 'in' ? p : 1 - p;
+      break;
+    case 'scale':
+      pose.scale = phase === 'in' ? SCALE_FROM + (1 - SCALE_FROM) * p : 1 - p;
+      pose.opacity = phase === 'in' ? Math.min(1, p * 2) : 1;
+      break;
+  }
+  return pose;
+}
+
+/**
+ * Multiply material opacity under `root` by `opacity`.
+ * Original values are stashed in material.userData and restored at opacity 1.
+ */
+export function setOpacity(root: THREE.Object3D, opacity: number) {
+  root.traverse((n: any) => {
+    const mats: THREE.Material[] = Array.isArray(n.material) ? n.material : n.material ? [n.material] : [];
+    for (const m of mats) {
+      const base = (m.userData.__fadeBase ??= { opacity: m.opacity, transparent: m.transparent });
+      const wasTransparent = m.transparent;
+      if (opacity >= 1) {
+        m.opacity = base.opacity;
+        m.transparent = base.transparent;
+        delete m.userData.__fadeBase;
+      } else {
+        m.opacity = base.opacity * opacity;
+        m.transparent = true;
+      }
+      // switching blending needs a program rebuild; plain opacity doesn't
+      if (m.transparent !== wasTransparent) m.needsUpdate = true;
+    }
+  });
+}
@@ -0,0 +1,113 @@
+// src/feed/content/ContentType.ts
+// Registry of feed item types. FeedStore only talks to Content handles, so a
+// new kind of item is a ContentType plus an ItemTypes augmentation – no
+// FeedStore changes.
+import * as THREE from 'three';
+import type { ItemBase, ItemType, ItemTypes } from '../FeedSchema';
+import type { LoopMode, PlaybackClock } from '../loaders/SplatSequence';
+import { disposeObject } from '../loaders/GLTFModel';
+
+/** Time-based content (e.g. splat4d) – drives the HUD timeline and audio sync. */
+export interface Playback {
+  readonly isPlaying: boolean;
+  readonly isBuffering: boolean;
+  readonly frameIndex: number;
+  readonly frameCount: number;
+  readonly playbackSpeed: number;
+  readonly loopMode: LoopMode;
+  /** 0..1 */
+  readonly progress: number;
+  setPlaying(on: boolean): void;
+  seek(progress: number): void;
+  setSpeed(speed: number): void;
+  setLoopMode(mode: LoopMode): void;
+  /** Follow an external clock (the item's audio) instead of frame time. */
+  setClock(clock: PlaybackClock | null): void;
+  /** Clock time (s) at `progress`. */
+  timeAt(progress: number): number;
+}
+
+/** Loaded content for one item. `root` is detached; FeedStore adds/removes it. */
+export interface Content {
+  readonly root: THREE.Object3D;
+  readonly playback?: Playback;
+  setTransform(scale: number, rotY: number): void;
+  setPosition(pos: THREE.Vector3): void;
+  /** World-space bounds (platform, grab and scroll distance checks). */
+  getBounds(): THREE.Box3 | null;
+  /** Per-frame update while shown or animating out (seconds). */
+  tick(dt: number): void;
+  /** Makes sound of its own right now (video): the default soundtrack is held while it's shown. */
+  audible?(): boolean;
+  /** App paused (tab hidden, headset off) – and back; objectContent stops and restarts `playback`. */
+  pause?(): void;
+  resume?(): void;
+  dispose(): void;
+}
+
+/** What FeedStore hands to loaders. */
+export type ContentContext = {
+  /** Scene parent; loaders may attach to it while loading but must return `root` detached. */
+  parent: THREE.Object3D;
+  /** Time-based content stalled (or resumed) waiting for data. */
+  buffering(content: Content, on: boolean): void;
+  /**
+   * Play a media element's sound from `anchor` (positional, at the app's
+   * volume). Returns the release to call on dispose, if it was routed.
+   */
+  routeAudio(el: HTMLMediaElement, anchor: THREE.Object3D): (() => void) | undefined;
+};
+
+export interface ContentType<K extends ItemType = ItemType> {
+  readonly type: K;
+  /** Check the type-specific fields of an untrusted entry (throw FieldError). */
+  parse(raw: Record<string, unknown>, base: ItemBase): ItemTypes[K];
+  load(item: ItemTypes[K], ctx: ContentContext): Promise<Content>;
+}
+
+const registry = new Map<string, ContentType<any>>();
+
+/** Add (or replace) the handler for `def.type`. */
+export function registerContentType<K extends ItemType>(def: ContentType<K>) {
+  registry.set(def.type, def);
+}
+
+export function getContentType<K extends ItemType>(type: K | string): ContentType<K> | undefined {
+  return registry.get(type);
+}
+
+export function contentTypeNames(): string[] {
+  return [...registry.keys()];
+}
+
+/** Content backed by a plain object tree; types override what they need. */
+export function objectContent(root: THREE.Object3D, overrides: Partial<Content> = {}): Content {
+  const playback = overrides.playback;
+  let resumePlayback = false;
+  return {
+    root,
+    setTransform(scale, rotY) {
+      root.scale.setScalar(scale);
+      root.rotation.y = rotY;
+    },
+    setPosition(pos) {
+      root.position.copy(pos);
+    },
+    getBounds() {
+      return new THREE.Box3().setFromObject(root);
+    },
+    tick() {},
+    pause() {
+      resumePlayback = !!playback?.isPlaying;
+      playback?.setPlaying(false);
+    },
+    resume() {
+      if (resumePlayback) playback?.setPlaying(true);
+      resumePlayback = false;
+    },
+    dispose() {
+      disposeObject(root);
+    },
+    ...overrides,
+  };
+}
@@ -0,0 +1,38 @@
+// src/feed/content/fields.ts
+// Field checks shared by FeedSchema and the content types' parse().
+
+/** Thrown by parse(); `field` ends up in the FeedIssue. */
+export class FieldError extends Error {
+  constructor(public field: string, message: string) {
+    super(message);
+  }
+}
+
+export const isObj = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+export function str(o: Record<string, unknown>, field: string): string {
+  const v = o[field];
+  if (typeof v !== 'string' || !v.trim()) throw new FieldError(field, 'must be a non-empty string');
+  return v;
+}
+
+export function optStr(o: Record<string, unknown>, field: string): string | undefined {
+  return o[field] === undefined ? undefined : str(o, field);
+}
+
+export function num(o: Record<string, unknown>, field: string, min: number): number {
+  const v = o[field];
+  if (typeof v !== 'number' || !Number.isFinite(v) || v < min) {
+    throw new FieldError(field, `must be a number ≥ ${min}`);
+  }
+  return v;
+}
+
+/** Optional string restricted to `allowed`. */
+export function oneOf<T extends string>(o: Record<string, unknown>, field: string, allowed: readonly T[]): T | undefined {
+  const v = o[field];
+  if (v === undefined) return undefined;
+  if (!allowed.includes(v as T)) throw new FieldError(field, `must be one of ${allowed.join(', ')}`);
+  return v as T;
+}
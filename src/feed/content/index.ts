@@ -0,0 +1,16 @@
+// src/feed/content/index.ts
+// Built-in item types. Importing this registers them; add more with registerContentType().
+import { registerContentType } from './ContentType';
+import { shapeType } from './shape';
+import { splat4dType, plyType } from './splat';
+import { meshType } from './mesh';
+import { videoType } from './video';
+
+registerContentType(shapeType);
+registerContentType(splat4dType);
+registerContentType(plyType);
+registerContentType(meshType);
+registerContentType(videoType);
+
+export * from './ContentType';
+export { FieldError } from './fields';
@@ -0,0 +1,16 @@
+// src/feed/content/mesh.ts
+import type { MeshItem } from '../FeedSchema';
+import { loadGLTFModel } from '../loaders/GLTFModel';
+import { ContentType, objectContent } from './ContentType';
+import { str } from './fields';
+
+/** glTF / GLB models (Draco, Meshopt and KTX2 supported). */
+export const meshType: ContentType<'mesh'> = {
+  type: 'mesh',
+  parse(raw, base): MeshItem {
+    return { ...base, type: 'mesh', src: str(raw, 'src') };
+  },
+  async load(item) {
+    return objectContent(await loadGLTFModel(item.src));
+  },
+};
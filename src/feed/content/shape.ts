@@ -0,0 +1,50 @@
+// src/feed/content/shape.ts
+import * as THREE from 'three';
+import type { ShapeItem, ShapeKind } from '../FeedSchema';
+import { ContentType, objectContent } from './ContentType';
+import { FieldError } from './fields';
+
+const SHAPES: readonly ShapeKind[] = ['box', 'sphere', 'pyramid'];
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+function makeShape(kind: ShapeKind, colorHex?: string) {
+  const color = new THREE.Color(colorHex ?? '#66ccff');
+  const mat = new THREE.MeshStandardMaterial({
+    color,
+    roughness: 0.4,
+    metalness: 0.0,
+    emissive: 0x000000,
+  });
+  let geo: THREE.BufferGeometry;
+  switch (kind) {
+    case 'box':
+      geo = new THREE.BoxGeometry(0.4, 0.4, 0.4);
+      break;
+    case 'sphere':
+      geo = new THREE.SphereGeometry(0.25, 32, 16);
+      break;
+    case 'pyramid':
+      geo = new THREE.ConeGeometry(0.28, 0.5, 4);
+      break;
+    default:
+      geo = new THREE.BoxGeometry(0.4, 0.4, 0.4);
+      break;
+  }
+  return new THREE.Mesh(geo, mat);
+}
+
+export const shapeType: ContentType<'shape'> = {
+  type: 'shape',
+  parse(raw, base): ShapeItem {
+    if (!SHAPES.includes(raw.shape as ShapeKind)) {
+      throw new FieldError('shape', `must be one of ${SHAPES.join(', ')}`);
+    }
+    if (raw.color !== undefined && (typeof raw.color !== 'string' || !HEX_COLOR.test(raw.color))) {
+      throw new FieldError('color', 'must be a hex color like #66ccff');
+    }
+    return { ...base, type: 'shape', shape: raw.shape as ShapeKind, color: raw.color as string | undefined };
+  },
+  async load(item) {
+    return objectContent(makeShape(item.shape, item.color));
+  },
+};
@@ -0,0 +1,62 @@
+// src/feed/content/splat.ts
+import type { PlyItem, Splat4dItem } from '../FeedSchema';
+import { SplatSequence } from '../loaders/SplatSequence';
+import { SPLAT_FORMATS, SplatFormat } from '../splats/decodeSplats';
+import { Content, ContentContext, ContentType, objectContent } from './ContentType';
+import { FieldError, num, oneOf, str } from './fields';
+
+/** splat4d sequences longer than this stream frames instead of loading them all up front. */
+const STREAM_MIN_FRAMES = 24;
+
+async function loadSequence(
+  frames: string[],
+  fps: number,
+  format: SplatFormat | undefined,
+  ctx: ContentContext
+): Promise<Content> {
+  let content: Content | undefined;
+  const seq = new SplatSequence(ctx.parent, frames, fps, {
+    format,
+    streaming: frames.length > STREAM_MIN_FRAMES,
+    onBuffering: (on) => content && ctx.buffering(content, on),
+  });
+  await seq.ready.catch((e) => {
+    seq.dispose();
+    throw e;
+  });
+  seq.setPlaying(false);
+  ctx.parent.remove(seq.object);
+
+  content = objectContent(seq.object, {
+    playback: frames.length > 1 ? seq : undefined,
+    setTransform: (scale, rotY) => seq.setTransform(scale, rotY),
+    setPosition: (pos) => seq.setPosition(pos),
+    tick: (dt) => seq.update(dt),
+    dispose: () => seq.dispose(),
+  });
+  return content;
+}
+
+/** Animated Gaussian splats: one file per frame. */
+export const splat4dType: ContentType<'splat4d'> = {
+  type: 'splat4d',
+  parse(raw, base): Splat4dItem {
+    const fps = num(raw, 'fps', 0);
+    const frames = raw.frames;
+    if (!Array.isArray(frames) || !frames.length) throw new FieldError('frames', 'must be a non-empty array');
+    frames.forEach((f, i) => {
+      if (typeof f !== 'string' || !f.trim()) throw new FieldError(`frames[${i}]`, 'must be a URL string');
+    });
+    return { ...base, type: 'splat4d', fps, frames: frames as string[], format: oneOf(raw, 'format', SPLAT_FORMATS) };
+  },
+  load: (item, ctx) => loadSequence(item.frames, item.fps, item.format, ctx),
+};
+
+/** A single splat file (ply / splat / ksplat / spz despite the name). */
+export const plyType: ContentType<'ply'> = {
+  type: 'ply',
+  parse(raw, base): PlyItem {
+    return { ...base, type: 'ply', src: str(raw, 'src'), format: oneOf(raw, 'format', SPLAT_FORMATS) };
+  },
+  load: (item, ctx) => loadSequence([item.src], 0, item.format, ctx),
+};
@@ -0,0 +1,236 @@
+// src/feed/content/video.ts
+import * as THREE from 'three';
+import type { ItemBase } from '../FeedSchema';
+import type { LoopMode, PlaybackClock } from '../loaders/SplatSequence';
+import { Content, ContentContext, ContentType, Playback, objectContent } from './ContentType';
+import { num, oneOf, str } from './fields';
+
+/** Frame packing of a stereo video (left eye on the left / top). */
+export type VideoStereo = 'mono' | 'sbs' | 'tb';
+export type VideoProjection = 'flat' | '180' | '360';
+export type VideoItem = ItemBase & {
+  type: 'video';
+  src: string;
+  stereo?: VideoStereo;
+  projection?: VideoProjection;
+  /** Only used for the HUD frame counter (default 30). */
+  fps?: number;
+};
+
+declare module '../FeedSchema' {
+  interface ItemTypes {
+    video: VideoItem;
+  }
+}
+
+const STEREO: readonly VideoStereo[] = ['mono', 'sbs', 'tb'];
+const PROJECTIONS: readonly VideoProjection[] = ['flat', '180', '360'];
+const DEFAULT_FPS = 30;
+/** Flat videos are this wide (m); spheres have this radius. Grab / pinch scale from there. */
+const FLAT_WIDTH = 0.8;
+const SPHERE_RADIUS = 0.5;
+/** Re-seek when the video is this far (s) off the soundtrack it follows. */
+const MAX_DRIFT = 0.2;
+
+/** Eye layers the WebXR camera renders (left = 1, right = 2); layer 0 is both. */
+const EYE_LAYER = { left: 1, right: 2 } as const;
+type Eye = keyof typeof EYE_LAYER;
+
+/** HTMLVideoElement behind the Playback interface FeedStore and the HUD drive. */
+class VideoPlayback implements Playback {
+  private clock: PlaybackClock | null = null;
+  private lastClockTime = -1;
+  private loop: LoopMode = 'loop';
+  private buffering = false;
+
+  constructor(private video: HTMLVideoElement, private fps: number, private onBuffering: (on: boolean) => void) {
+    video.addEventListener('waiting', () => this.setBuffering(true));
+    video.addEventListener('playing', () => this.setBuffering(false));
+    video.addEventListener('canplay', () => this.setBuffering(false));
+  }
+
+  get isPlaying() { return !this.video.paused; }
+  get isBuffering() { return this.buffering; }
+  get frameCount() { return Math.max(1, Math.round(this.duration * this.fps)); }
+  get frameIndex() { return Math.min(this.frameCount - 1, Math.floor(this.video.currentTime * this.fps)); }
+  get playbackSpeed() { return this.video.playbackRate; }
+  get loopMode() { return this.loop; }
+  get progress() { return this.duration ? this.video.currentTime / this.duration : 0; }
+
+  setPlaying(on: boolean) {
+    if (on === this.isPlaying) return;
+    if (on) this.play();
+    else this.video.pause();
+  }
+
+  seek(progress: number) {
+    this.video.currentTime = THREE.MathUtils.clamp(progress, 0, 1) * this.duration;
+  }
+
+  setSpeed(speed: number) {
+    // switching src would reset playbackRate to the default
+    this.video.defaultPlaybackRate = speed;
+    this.video.playbackRate = speed;
+  }
+
+  /** Videos can't play backwards, so 'pingpong' loops like 'loop'. */
+  setLoopMode(mode: LoopMode) {
+    this.loop = mode;
+    this.video.loop = mode !== 'once';
+  }
+
+  /** The item's soundtrack replaces the video's own sound while it leads. */
+  setClock(clock: PlaybackClock | null) {
+    this.clock = clock;
+    this.lastClockTime = -1;
+    this.video.muted = !!clock;
+  }
+
+  timeAt(progress: number) {
+    return THREE.MathUtils.clamp(progress, 0, 1) * this.duration;
+  }
+
+  /** With a clock, play while it moves and stay within MAX_DRIFT of it. */
+  update() {
+    const clock = this.clock;
+    if (!clock) return;
+    const t = clock.time;
+    const moving = t !== this.lastClockTime;
+    this.lastClockTime = t;
+    if (moving && this.video.paused) this.play();
+    else if (!moving && !this.video.paused) this.video.pause();
+
+    const target = this.loop === 'once' ? Math.min(t, this.duration) : t % (this.duration || 1);
+    if (Math.abs(this.video.currentTime - target) > MAX_DRIFT) this.video.currentTime = target;
+  }
+
+  private get duration() {
+    const d = this.video.duration;
+    return Number.isFinite(d) ? d : 0;
+  }
+
+  private play() {
+    this.video.play().catch(() => {
+      // autoplay with sound needs a user gesture; muted playback doesn't
+      if (this.video.muted) return;
+      this.video.muted = true;
+      this.video.play().catch(() => {});
+    });
+  }
+
+  private setBuffering(on: boolean) {
+    if (on === this.buffering) return;
+    this.buffering = on;
+    this.onBuffering(on);
+  }
+}
+
+function loadVideo(src: string): Promise<HTMLVideoElement> {
+  const video = document.createElement('video');
+  video.crossOrigin = 'anonymous';
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.loop = true;
+  return new Promise((resolve, reject) => {
+    video.addEventListener('loadedmetadata', () => resolve(video), { once: true });
+    video.addEventListener('error', () => reject(new Error(`Failed to load video ${src}`)), { once: true });
+    video.src = src;
+  });
+}
+
+/** Geometry for one eye's view of the frame; `eye` picks its half of a stereo frame. */
+function eyeGeometry(projection: VideoProjection, aspect: number, stereo: VideoStereo, eye?: Eye) {
+  let geo: THREE.BufferGeometry;
+  switch (projection) {
+    case '360':
+      geo = new THREE.SphereGeometry(SPHERE_RADIUS, 64, 32);
+      geo.scale(-1, 1, 1); // seen from inside
+      break;
+    case '180':
+      // the back half of the sphere, facing -Z like a flat item
+      geo = new THREE.SphereGeometry(SPHERE_RADIUS, 64, 32, Math.PI, Math.PI);
+      geo.scale(-1, 1, 1);
+      break;
+    default:
+      geo = new THREE.PlaneGeometry(FLAT_WIDTH, FLAT_WIDTH / aspect);
+      break;
+  }
+  if (eye && stereo !== 'mono') {
+    const uv = geo.getAttribute('uv') as THREE.BufferAttribute;
+    for (let i = 0; i < uv.count; i++) {
+      if (stereo === 'sbs') uv.setX(i, uv.getX(i) * 0.5 + (eye === 'left' ? 0 : 0.5));
+      else uv.setY(i, uv.getY(i) * 0.5 + (eye === 'left' ? 0.5 : 0));
+    }
+    uv.needsUpdate = true;
+  }
+  return geo;
+}
+
+async function loadVideoContent(item: VideoItem, ctx: ContentContext): Promise<Content> {
+  const video = await loadVideo(item.src);
+  const stereo = item.stereo ?? 'mono';
+  const projection = item.projection ?? 'flat';
+  // aspect of one eye's image
+  const w = video.videoWidth / (stereo === 'sbs' ? 2 : 1);
+  const h = video.videoHeight / (stereo === 'tb' ? 2 : 1);
+  const aspect = w && h ? w / h : 16 / 9;
+
+  const texture = new THREE.VideoTexture(video);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  const material = new THREE.MeshBasicMaterial({
+    map: texture,
+    toneMapped: false,
+    // spheres face inwards: from outside you look through the near half at the far one
+    side: projection === 'flat' ? THREE.DoubleSide : THREE.FrontSide,
+  });
+
+  const root = new THREE.Group();
+  if (stereo === 'mono') {
+    root.add(new THREE.Mesh(eyeGeometry(projection, aspect, stereo), material));
+  } else {
+    for (const eye of ['left', 'right'] as const) {
+      const mesh = new THREE.Mesh(eyeGeometry(projection, aspect, stereo, eye), material);
+      mesh.layers.set(EYE_LAYER[eye]);
+      root.add(mesh);
+    }
+  }
+
+  // the video's own sound comes from the video, like item audio does
+  const releaseAudio = ctx.routeAudio(video, root);
+
+  let content: Content | undefined;
+  const playback = new VideoPlayback(video, item.fps ?? DEFAULT_FPS, (on) => content && ctx.buffering(content, on));
+  content = objectContent(root, {
+    playback,
+    // muted while it follows an item soundtrack (or autoplay only allowed it muted)
+    audible: () => !video.muted,
+    tick: () => playback.update(),
+    dispose: () => {
+      releaseAudio?.();
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+      texture.dispose();
+      material.dispose();
+      root.traverse((n) => (n as THREE.Mesh).geometry?.dispose());
+    },
+  });
+  return content;
+}
+
+/** 2D / stereo video on a plane, or a 180° / 360° sphere. */
+export const videoType: ContentType<'video'> = {
+  type: 'video',
+  parse(raw, base): VideoItem {
+    const item: VideoItem = {
+      ...base,
+      type: 'video',
+      src: str(raw, 'src'),
+      stereo: oneOf(raw, 'stereo', STEREO),
+      projection: oneOf(raw, 'projection', PROJECTIONS),
+    };
+    if (raw.fps !== undefined) item.fps = num(raw, 'fps', 1);
+    return item;
+  },
+  load: loadVideoContent,
+};
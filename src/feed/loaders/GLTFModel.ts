@@ -0,0 +1,66 @@
+// src/feed/loaders/GLTFModel.ts
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
+import { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader.js';
+import { MeshoptDecoder } from 'three/examples/jsm/libs/meshopt_decoder.module.js';
+
+// Decoders are served from public/decoders: unmodified copies of
+// three/examples/jsm/libs/{draco,basis} from the three version in package.json
+// (re-copy them when upgrading three).
+const DRACO_PATH = '/decoders/draco/';
+const BASIS_PATH = '/decoders/basis/';
+
+/** Largest dimension (meters) a loaded model is normalized to. */
+export const MODEL_TARGET_SIZE = 0.5;
+
+const draco = new DRACOLoader().setDecoderPath(DRACO_PATH);
+const ktx2 = new KTX2Loader().setTranscoderPath(BASIS_PATH);
+const loader = new GLTFLoader().setDRACOLoader(draco).setMeshoptDecoder(MeshoptDecoder);
+
+/**
+ * KTX2 needs to know which compressed formats the GPU supports,
+ * so it is only attached once a renderer is available.
+ */
+export function initModelDecoders(renderer: THREE.WebGLRenderer) {
+  ktx2.detectSupport(renderer);
+  loader.setKTX2Loader(ktx2);
+}
+
+/**
+ * Load a glTF/GLB and wrap it in a group whose origin sits at the
+ * bottom-center of the model, scaled so its largest side is `targetSize`.
+ * Transforms (position / scale / rotY) go on the returned group.
+ */
+export async function loadGLTFModel(url: string, targetSize = MODEL_TARGET_SIZE): Promise<THREE.Group> {
+  const gltf = await loader.loadAsync(url);
+  const model = gltf.scene;
+
+  const box = new THREE.Box3().setFromObject(model);
+  const size = box.getSize(new THREE.Vector3());
+  const maxDim = Math.max(size.x, size.y, size.z);
+  const s = maxDim > 0 ? targetSize / maxDim : 1;
+
+  // floor-align: center on X/Z, bottom at y = 0
+  const center = box.getCenter(new THREE.Vector3());
+  model.scale.multiplyScalar(s);
+  model.position.set(-center.x * s, -box.min.y * s, -center.z * s);
+
+  const root = new THREE.Group();
+  root.add(model);
+  return root;
+}
+
+/** Dispose geometries, materials and their textures under `root`. */
+export function disposeObject(root: THREE.Object3D) {
+  root.traverse((n: any) => {
+    n.geometry?.dispose?.();
+    const mats: THREE.Material[] = Array.isArray(n.material) ? n.material : n.material ? [n.material] : [];
+    for (const m of mats) {
+      for (const v of Object.values(m)) {
+        if (v instanceof THREE.Texture) v.dispose();
+      }
+      m.dispose();
+    }
+  });
+}
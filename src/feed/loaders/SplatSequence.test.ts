@@ -0,0 +1,154 @@
+import * as THREE from 'three';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { splatDecoderPool } from '../splats/SplatDecoderPool';
+import { LoopMode, PlaybackClock, SplatSequence, SplatSequenceOptions } from './SplatSequence';
+
+// frames are plain objects: no worker, no GPU
+vi.mock('../splats/SplatDecoderPool', () => ({ splatDecoderPool: { decode: vi.fn() } }));
+vi.mock('../splats/GaussianSplatMesh', async () => {
+  const { Object3D } = await import('three');
+  return { GaussianSplatMesh: class extends Object3D { dispose() {} } };
+});
+
+const decode = vi.mocked(splatDecoderPool.decode);
+const FPS = 4;
+const DT = 1 / FPS; // one frame per update at speed 1
+
+function urls(n: number) {
+  return Array.from({ length: n }, (_, i) => `/seq/${i}.ply`);
+}
+
+async function sequence(n: number, loop: LoopMode, opts: SplatSequenceOptions = {}) {
+  const seq = new SplatSequence(new THREE.Group(), urls(n), FPS, { loop, ...opts });
+  await seq.ready;
+  return seq;
+}
+
+/** Playhead after each of `steps` updates of `dt`. */
+function run(seq: SplatSequence, steps: number, dt = DT) {
+  const out: number[] = [];
+  for (let i = 0; i < steps; i++) {
+    seq.update(dt);
+    out.push(seq.frameIndex);
+  }
+  return out;
+}
+
+beforeEach(() => {
+  decode.mockReset();
+  decode.mockResolvedValue({} as never);
+});
+
+describe('SplatSequence.update', () => {
+  it('wraps around in loop mode', async () => {
+    const seq = await sequence(4, 'loop');
+    expect(seq.frameIndex).toBe(0);
+    expect(seq.isPlaying).toBe(true);
+    expect(run(seq, 6)).toEqual([1, 2, 3, 0, 1, 2]);
+  });
+
+  it('stops on the last frame in once mode', async () => {
+    const seq = await sequence(4, 'once');
+    expect(run(seq, 5)).toEqual([1, 2, 3, 3, 3]);
+    expect(seq.isPlaying).toBe(false);
+    expect(seq.progress).toBe(1);
+  });
+
+  it('reverses at both ends in pingpong mode', async () => {
+    const seq = await sequence(4, 'pingpong');
+    expect(run(seq, 8)).toEqual([1, 2, 3, 2, 1, 0, 1, 2]);
+  });
+
+  it('accumulates partial steps and scales with speed', async () => {
+    const seq = await sequence(4, 'loop');
+    expect(run(seq, 4, DT / 2)).toEqual([0, 1, 1, 2]);
+    seq.setSpeed(2);
+    expect(run(seq, 2)).toEqual([0, 2]);
+  });
+
+  it('holds the frame while paused and resumes from it', async () => {
+    const seq = await sequence(4, 'loop');
+    run(seq, 2);
+    seq.setPlaying(false);
+    expect(run(seq, 3)).toEqual([2, 2, 2]);
+    seq.setPlaying(true);
+    expect(run(seq, 2)).toEqual([3, 0]);
+  });
+
+  it('switching from pingpong to once plays forward to the end', async () => {
+    const seq = await sequence(4, 'pingpong');
+    run(seq, 4); // 1 2 3 2, now heading back
+    seq.setLoopMode('once');
+    expect(run(seq, 4)).toEqual([3, 3, 3, 3]);
+    expect(seq.isPlaying).toBe(false);
+  });
+});
+
+describe('SplatSequence with a clock', () => {
+  it('follows the clock instead of dt, through pause and resume', async () => {
+    const clock = { time: 0 };
+    const seq = await sequence(4, 'loop');
+    seq.setClock(clock);
+
+    seq.update(10); // dt is ignored
+    expect(seq.frameIndex).toBe(0);
+
+    clock.time = 2 * DT;
+    seq.update(DT);
+    expect(seq.frameIndex).toBe(2);
+
+    // paused clock: time stands still however long the frames run
+    expect(run(seq, 3)).toEqual([2, 2, 2]);
+
+    clock.time = 5 * DT;
+    seq.update(DT);
+    expect(seq.frameIndex).toBe(1);
+  });
+
+  it.each<[LoopMode, number[]]>([
+    ['loop', [0, 1, 2, 3, 0, 1, 2, 3]],
+    ['once', [0, 1, 2, 3, 3, 3, 3, 3]],
+    ['pingpong', [0, 1, 2, 3, 2, 1, 0, 1]],
+  ])('maps clock time through %s mode', async (mode, expected) => {
+    const clock: { time: number } & PlaybackClock = { time: 0 };
+    const seq = await sequence(4, mode);
+    seq.setClock(clock);
+    const seen = expected.map((_, k) => {
+      clock.time = k * DT;
+      seq.update(DT);
+      return seq.frameIndex;
+    });
+    expect(seen).toEqual(expected);
+  });
+
+  it('timeAt is the inverse of progress', async () => {
+    const seq = await sequence(5, 'loop');
+    expect(seq.timeAt(0)).toBe(0);
+    expect(seq.timeAt(1)).toBe(4 / FPS);
+    expect(seq.timeAt(0.5)).toBe(2 / FPS);
+  });
+});
+
+describe('SplatSequence streaming', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('skips a failed frame and retries it with backoff', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    let failFrame2 = true;
+    decode.mockImplementation(async (url) => {
+      if (url.endsWith('/2.ply') && failFrame2) throw new Error('boom');
+      return {} as never;
+    });
+    const seq = await sequence(4, 'loop', { streaming: true, bufferFrames: 4, keepAhead: 4 });
+
+    // frame 2 is skipped while it's down
+    expect(run(seq, 3)).toEqual([1, 3, 0]);
+    const tries = decode.mock.calls.filter(([url]) => url.endsWith('/2.ply')).length;
+
+    failFrame2 = false;
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(decode.mock.calls.filter(([url]) => url.endsWith('/2.ply')).length).toBe(tries + 1);
+    expect(run(seq, 3)).toEqual([1, 2, 3]);
+  });
+});
@@ -1,6 +1,44 @@
 // src/feed/loaders/SplatSequence.ts
 import * as THREE from 'three';
-import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { splatFormatFromUrl, SplatFormat } from '../splats/decodeSplats';
+import { splatDecoderPool } from '../splats/SplatDecoderPool';
+import { GaussianSplatMesh } from '../splats/GaussianSplatMesh';
+
+/** What happens at the last frame: wrap around, stop, or reverse direction. */
+export type LoopMode = 'loop' | 'once' | 'pingpong';
+export const LOOP_MODES: readonly LoopMode[] = ['loop', 'once', 'pingpong'];
+
+/** Playback speed multiplier range. */
+export const MIN_SPEED = 0.1;
+export const MAX_SPEED = 4;
+
+/** External time source (e.g. an audio track) that frame selection follows instead of dt. */
+export type PlaybackClock = { readonly time: number };
+
+export type SplatSequenceOptions = {
+  /** Overrides detection from each frame URL's extension (default: ply). */
+  format?: SplatFormat;
+  /** Default: loop */
+  loop?: LoopMode;
+  /**
+   * Start playing once `bufferFrames` are decoded and only keep a window of
+   * frames around the playhead resident. Off = load everything up front.
+   */
+  streaming?: boolean;
+  /** Frames that must be ready before playback starts (streaming only). */
+  bufferFrames?: number;
+  /** Frames kept behind / decoded ahead of the playhead (streaming only). */
+  keepBehind?: number;
+  keepAhead?: number;
+  /** Called when playback stalls waiting for a frame, and again when it resumes. */
+  onBuffering?: (buffering: boolean) => void;
+};
+
+/** Concurrent frame downloads while streaming. */
+const STREAM_PARALLEL = 2;
+/** A failed frame is retried after this long, doubling per failure up to RETRY_MAX_MS. */
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30000;
 
 export class SplatSequence {
   public ready: Promise<void>;
@@ -10,40 +48,100 @@ export class SplatSequence {
 
   private framesUrls: string[];
   private fps: number;
+  private format?: SplatFormat;
 
-  private frames: THREE.Object3D[] = [];
+  // indexed by frame; holes are frames that aren't resident (streaming)
+  private frames: (THREE.Object3D | undefined)[];
   private curIndex = 0;
+  private shownIndex = -1;
   private playing = false;
   private acc = 0;
+  private speed = 1;
+  private mode: LoopMode;
+  /** +1 forward, -1 backward (ping-pong only) */
+  private direction = 1;
+  private clock: PlaybackClock | null = null;
+
+  private streaming: boolean;
+  private bufferFrames: number;
+  private keepBehind: number;
+  private keepAhead: number;
+  private inFlight = new Set<number>();
+  /** Frames whose last download failed; skipped by playback until a retry succeeds. */
+  private failed = new Map<number, { tries: number; retryAt: number }>();
+  private buffering = false;
+  private onBuffering?: (buffering: boolean) => void;
+  private onFrameSettled?: () => void;
 
-  private loader = new PLYLoader();
   private disposed = false;
 
-  constructor(parent: THREE.Object3D, framesUrls: string[], fps: number) {
+  constructor(parent: THREE.Object3D, framesUrls: string[], fps: number, opts: SplatSequenceOptions = {}) {
     this.parent = parent;
     this.framesUrls = framesUrls;
     this.fps = Math.max(0, fps | 0);
+    this.format = opts.format;
+    this.mode = opts.loop ?? 'loop';
+    this.frames = new Array(framesUrls.length).fill(undefined);
+
+    this.streaming = !!opts.streaming && framesUrls.length > 1;
+    this.bufferFrames = THREE.MathUtils.clamp(opts.bufferFrames ?? 8, 1, framesUrls.length || 1);
+    this.keepBehind = Math.max(0, opts.keepBehind ?? 2);
+    this.keepAhead = Math.max(this.bufferFrames, opts.keepAhead ?? 16);
+    this.onBuffering = opts.onBuffering;
 
     this.root = new THREE.Group();
     this.root.name = 'splat-sequence-root';
     this.parent.add(this.root);
 
     // begin loading
-    this.ready = this.loadAll().then(() => {
+    this.ready = (this.streaming ? this.fillBuffer() : this.loadAll()).then(() => {
       // show first frame
-      if (this.frames.length) {
-        this.frames.forEach((f, i) => (f.visible = i === 0));
-        this.curIndex = 0;
-      }
-      // start playback if >1 frame and fps > 0
-      this.playing = this.frames.length > 1 && this.fps > 0;
-      // attach an internal update loop
-      this.loop();
+      this.curIndex = 0;
+      this.updateDisplay();
+      // start playback if >1 frame and fps > 0 (advanced by update())
+      this.playing = this.frameCount > 1 && this.fps > 0;
     });
   }
 
   // --------- Public API ----------
 
+  /** Root group holding all frames (transform this or use setTransform/setPosition) */
+  get object(): THREE.Object3D {
+    return this.root;
+  }
+
+  get frameCount() {
+    return this.framesUrls.length;
+  }
+
+  /** True while playback is held waiting for a frame to download. */
+  get isBuffering() {
+    return this.buffering;
+  }
+
+  get isPlaying() {
+    return this.playing;
+  }
+
+  /** Playhead frame (may not be on screen yet while buffering). */
+  get frameIndex() {
+    return this.curIndex;
+  }
+
+  get playbackSpeed() {
+    return this.speed;
+  }
+
+  get loopMode() {
+    return this.mode;
+  }
+
+  /** Playhead position, 0 (first frame) .. 1 (last frame) */
+  get progress() {
+    const n = this.frameCount;
+    return n > 1 ? this.curIndex / (n - 1) : 0;
+  }
+
   /** Set uniform scale and Y rotation for the whole sequence root */
   setTransform(scale: number, rotY: number) {
     if (this.disposed) return;
@@ -58,110 +156,286 @@ export class SplatSequence {
     this.root.position.copy(pos);
   }
 
-  /** Optional manual control of current frame (0..n-1) */
+  /**
+   * Optional manual control of current frame (0..n-1). When streaming, a
+   * frame that isn't resident yet keeps the last one on screen until it arrives.
+   */
   setFrameIndex(i: number) {
-    if (this.disposed || !this.frames.length) return;
-    const idx = ((i % this.frames.length) + this.frames.length) % this.frames.length;
-    if (idx === this.curIndex) return;
-    this.frames[this.curIndex].visible = false;
-    this.frames[idx].visible = true;
-    this.curIndex = idx;
+    const n = this.frameCount;
+    if (this.disposed || !n) return;
+    this.curIndex = ((i % n) + n) % n;
+    if (this.streaming) {
+      this.trimWindow();
+      this.pump();
+    }
+    this.updateDisplay();
+  }
+
+  /**
+   * Advance playback by `dt` seconds. Driven from the app's frame loop
+   * (FeedStore.tick), so it stops while the app is paused.
+   */
+  update(dt: number) {
+    if (this.disposed || this.fps <= 0 || this.frameCount <= 1) return;
+    if (this.clock) {
+      // the clock owns play/pause/speed; we only pick the frame for its time
+      const idx = this.frameAt(this.clock.time);
+      if (idx !== this.curIndex) this.setFrameIndex(idx);
+      return;
+    }
+    if (!this.playing) return;
+    const step = 1 / (this.fps * this.speed);
+    if (this.buffering) {
+      // hold the playhead; resume on the next frame once it's in
+      this.acc = Math.min(this.acc + dt, step);
+    } else {
+      this.acc += dt;
+    }
+    while (this.acc >= step) {
+      const next = this.peekNext();
+      if (!next) {
+        // end of a 'once' run: hold the last frame
+        this.acc = 0;
+        this.setPlaying(false);
+        break;
+      }
+      if (this.streaming && !this.frames[next.index]) {
+        this.setBuffering(true);
+        this.pump();
+        this.acc = step;
+        break;
+      }
+      this.acc -= step;
+      this.direction = next.dir;
+      this.setFrameIndex(next.index);
+    }
+    // splat depth sorting happens per render in GaussianSplatMesh.onBeforeRender
+  }
+
+  /**
+   * Follow `clock` (seconds; frame = time × fps, mapped through the loop mode)
+   * instead of advancing on dt. Null goes back to free-running playback.
+   */
+  setClock(clock: PlaybackClock | null) {
+    this.clock = clock;
+    this.acc = 0;
+    this.direction = 1;
+  }
+
+  /** Clock time (s) at `progress` (0..1) – for seeking a clock the sequence follows. */
+  timeAt(progress: number) {
+    return (THREE.MathUtils.clamp(progress, 0, 1) * Math.max(0, this.frameCount - 1)) / Math.max(1, this.fps);
+  }
+
+  /** Jump to `progress` (0..1) along the sequence. */
+  seek(progress: number) {
+    const n = this.frameCount;
+    this.acc = 0;
+    this.setFrameIndex(Math.round(THREE.MathUtils.clamp(progress, 0, 1) * (n - 1)));
   }
 
   /** Start/stop internal playback (if multi-frame and fps>0) */
   setPlaying(on: boolean) {
-    this.playing = !!on && this.frames.length > 1 && this.fps > 0;
+    this.playing = !!on && this.frameCount > 1 && this.fps > 0;
+    if (!this.playing) this.setBuffering(false);
+  }
+
+  /** Multiplier on the sequence's fps (clamped to MIN_SPEED..MAX_SPEED). */
+  setSpeed(speed: number) {
+    this.speed = THREE.MathUtils.clamp(speed, MIN_SPEED, MAX_SPEED);
+  }
+
+  setLoopMode(mode: LoopMode) {
+    this.mode = mode;
+    if (mode !== 'pingpong') this.direction = 1;
   }
 
   /** Clean up GPU/CPU resources */
   dispose() {
     this.disposed = true;
     this.parent.remove(this.root);
-    for (const obj of this.frames) {
-      obj.traverse((n: any) => {
-        n.geometry?.dispose?.();
-        n.material?.dispose?.();
-      });
-    }
-    this.frames.length = 0;
+    for (const obj of this.frames) if (obj) disposeFrame(obj);
+    this.frames.fill(undefined);
+    this.onFrameSettled?.();
   }
 
   // --------- Internals ----------
 
   private async loadAll() {
     // Load serially to keep memory sane (change to Promise.all if you prefer)
-    for (const url of this.framesUrls) {
+    for (let i = 0; i < this.frameCount; i++) {
       if (this.disposed) break;
-      const obj = await this.loadPLYAsPoints(url);
+      const obj = await this.loadFrame(this.framesUrls[i]);
+      // disposed while this frame was in flight
+      if (this.disposed) {
+        disposeFrame(obj);
+        break;
+      }
       obj.visible = false;
       this.root.add(obj);
-      this.frames.push(obj);
+      this.frames[i] = obj;
     }
   }
 
-  private loadPLYAsPoints(url: string): Promise<THREE.Object3D> {
+  /** Resolves once the first `bufferFrames` frames have settled; rejects if none of them loaded. */
+  private fillBuffer(): Promise<void> {
     return new Promise((resolve, reject) => {
-      this.loader.load(
-        url,
-        (geom) => {
-          try {
-            // Normalize geometry if needed
-            if (!geom.hasAttribute('color')) {
-              const count = geom.getAttribute('position').count;
-              const colors = new Float32Array(count * 3);
-              for (let i = 0; i < count; i++) {
-                colors[i * 3 + 0] = 0.9;
-                colors[i * 3 + 1] = 0.9;
-                colors[i * 3 + 2] = 0.9;
-              }
-              geom.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-            }
-
-            const mat = new THREE.PointsMaterial({
-              size: 0.01,            // tune point size for your data
-              vertexColors: true,
-              sizeAttenuation: true,
-              transparent: true,
-              opacity: 1.0,
-            });
-
-            const pts = new THREE.Points(geom, mat);
-            pts.name = 'splat-seq-frame';
-            resolve(pts);
-          } catch (e) {
-            reject(e);
-          }
-        },
-        undefined,
-        (err) => reject(err)
-      );
+      const check = () => {
+        if (this.disposed) {
+          this.onFrameSettled = undefined;
+          resolve();
+          return;
+        }
+        let settled = 0, loaded = 0;
+        for (let i = 0; i < this.bufferFrames; i++) {
+          if (this.frames[i]) loaded++;
+          if (this.frames[i] || this.failed.has(i)) settled++;
+        }
+        if (settled < this.bufferFrames) return;
+        this.onFrameSettled = undefined;
+        if (loaded) resolve();
+        else reject(new Error(`Failed to load any of the first ${this.bufferFrames} frames`));
+      };
+      this.onFrameSettled = check;
+      this.pump();
     });
   }
 
-  private loop = () => {
+  /** Start downloads for the nearest missing frames ahead of the playhead. */
+  private pump() {
     if (this.disposed) return;
-    // advance animation
-    if (this.playing && this.fps > 0 && this.frames.length > 1) {
-      const now = performance.now();
-      // use a static lastTime stored on the function to avoid extra fields
-      const lastTime = (this.loop as any)._lastTime ?? now;
-      const dt = (now - lastTime) / 1000;
-      (this.loop as any)._lastTime = now;
+    const n = this.frameCount;
+    for (let d = 0; d <= this.keepAhead && d < n; d++) {
+      if (this.inFlight.size >= STREAM_PARALLEL) return;
+      const i = (this.curIndex + d * this.direction + n) % n;
+      if (this.frames[i] || this.inFlight.has(i)) continue;
+      const failed = this.failed.get(i);
+      if (failed && performance.now() < failed.retryAt) continue;
+      this.streamFrame(i);
+    }
+  }
 
-      this.acc += dt;
-      const step = 1 / this.fps;
-      while (this.acc >= step) {
-        this.acc -= step;
-        this.setFrameIndex(this.curIndex + 1);
+  private async streamFrame(i: number) {
+    this.inFlight.add(i);
+    try {
+      const obj = await this.loadFrame(this.framesUrls[i]);
+      if (this.disposed || !this.inWindow(i)) {
+        // playhead moved on while downloading
+        disposeFrame(obj);
+      } else {
+        obj.visible = false;
+        this.root.add(obj);
+        this.frames[i] = obj;
       }
-    } else {
-      // keep lastTime in sync even when not playing
-      (this.loop as any)._lastTime = performance.now();
+      this.failed.delete(i);
+    } catch (e) {
+      console.warn('Splat frame failed to load:', this.framesUrls[i], e);
+      const tries = (this.failed.get(i)?.tries ?? 0) + 1;
+      const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (tries - 1));
+      this.failed.set(i, { tries, retryAt: performance.now() + delay });
+      // pump() picks it up again if it's still near the playhead by then
+      setTimeout(() => this.pump(), delay);
+    } finally {
+      this.inFlight.delete(i);
     }
+    this.onFrameSettled?.();
+    if (this.disposed) return;
+    this.updateDisplay();
+    this.pump();
+  }
+
+  /** Is frame `i` inside the resident window around the playhead (wrapping, in playback direction)? */
+  private inWindow(i: number) {
+    const n = this.frameCount;
+    const ahead = ((i - this.curIndex) * this.direction + n) % n;
+    const behind = ((this.curIndex - i) * this.direction + n) % n;
+    return ahead <= this.keepAhead || behind <= this.keepBehind;
+  }
 
-    // keep point sprites facing camera if needed (not strictly necessary for points)
-    // If you later use oriented splats, update them here against the camera.
+  /** Dispose resident frames that fell out of the window (never the one on screen). */
+  private trimWindow() {
+    for (let i = 0; i < this.frames.length; i++) {
+      const obj = this.frames[i];
+      if (!obj || i === this.shownIndex || this.inWindow(i)) continue;
+      this.root.remove(obj);
+      disposeFrame(obj);
+      this.frames[i] = undefined;
+    }
+  }
+
+  /** Show the playhead frame if resident; otherwise keep the last one up and report buffering. */
+  private updateDisplay() {
+    const f = this.frames[this.curIndex];
+    if (!f) {
+      this.setBuffering(this.streaming && !this.failed.has(this.curIndex));
+      return;
+    }
+    if (this.shownIndex !== this.curIndex) {
+      const prev = this.shownIndex >= 0 ? this.frames[this.shownIndex] : undefined;
+      if (prev) prev.visible = false;
+      f.visible = true;
+      this.shownIndex = this.curIndex;
+      if (this.streaming) this.trimWindow();
+    }
+    // a stall (see loop) lasts until the frame playback is waiting for arrives
+    const next = this.peekNext();
+    const stalled = this.buffering && this.playing && !!next && !this.frames[next.index];
+    this.setBuffering(stalled);
+  }
+
+  private setBuffering(on: boolean) {
+    if (this.buffering === on) return;
+    this.buffering = on;
+    this.onBuffering?.(on);
+  }
+
+  private async loadFrame(url: string): Promise<THREE.Object3D> {
+    // fetch + parse happen in the decode worker; only the GPU upload is left for us
+    const format = this.format ?? splatFormatFromUrl(url) ?? 'ply';
+    const mesh = new GaussianSplatMesh(await splatDecoderPool.decode(url, format));
+    mesh.name = 'splat-seq-frame';
+    return mesh;
+  }
+
+  /** Frame shown at clock time `t` (s). */
+  private frameAt(t: number) {
+    const n = this.frameCount;
+    const k = Math.max(0, Math.floor(t * this.fps + 1e-6));
+    if (this.mode === 'once') return Math.min(k, n - 1);
+    if (this.mode === 'loop') return k % n;
+    const period = 2 * (n - 1);
+    const m = k % period;
+    return m < n ? m : period - m;
+  }
+
+  /**
+   * Frame playback moves to next and the direction it travels afterwards,
+   * skipping frames that failed to load. Null once a 'once' run is over.
+   */
+  private peekNext(): { index: number; dir: number } | null {
+    const n = this.frameCount;
+    let i = this.curIndex, dir = this.direction;
+    for (let tries = 0; tries < 2 * n; tries++) {
+      let j = i + dir;
+      if (j < 0 || j >= n) {
+        if (this.mode === 'once') return null;
+        if (this.mode === 'loop') j = (j + n) % n;
+        else {
+          dir = -dir;
+          j = i + dir;
+        }
+      }
+      i = j;
+      if (!this.failed.has(i)) return { index: i, dir };
+    }
+    return null;
+  }
+}
 
-    requestAnimationFrame(this.loop);
-  };
+function disposeFrame(obj: THREE.Object3D) {
+  obj.traverse((n: any) => {
+    if (n instanceof GaussianSplatMesh) return n.dispose();
+    n.geometry?.dispose?.();
+    n.material?.dispose?.();
+  });
 }
@@ -0,0 +1,243 @@
+// src/feed/splats/GaussianSplatMesh.ts
+import * as THREE from 'three';
+import { PackedSplats, SPLAT_TEX_WIDTH } from './packSplats';
+
+/** Depth buckets for the counting sort. */
+const SORT_BINS = 65536;
+
+const vertexShader = /* glsl */ `
+  precision highp float;
+  precision highp int;
+
+  uniform highp sampler2D centerTex;
+  uniform highp sampler2D covATex;
+  uniform highp sampler2D covBTex;
+  uniform highp sampler2D colorTex;
+  uniform vec2 viewport;
+  uniform int texWidth;
+
+  attribute float splatIndex;
+
+  varying vec4 vColor;
+  varying vec2 vPosition;
+
+  void main() {
+    int idx = int(splatIndex);
+    ivec2 uv = ivec2(idx % texWidth, idx / texWidth);
+
+    vec3 center = texelFetch(centerTex, uv, 0).xyz;
+    vec4 cam = modelViewMatrix * vec4(center, 1.0);
+    vec4 clip = projectionMatrix * cam;
+
+    // cull splats behind the camera or well outside the frustum
+    float bound = 1.2 * clip.w;
+    if (clip.w <= 0.0 || clip.z < -clip.w || abs(clip.x) > bound || abs(clip.y) > bound) {
+      gl_Position = vec4(0.0, 0.0, 2.0, 1.0);
+      return;
+    }
+
+    vec4 ca = texelFetch(covATex, uv, 0);
+    vec2 cb = texelFetch(covBTex, uv, 0).xy;
+    mat3 Vrk = mat3(
+      ca.x, ca.y, ca.z,
+      ca.y, ca.w, cb.x,
+      ca.z, cb.x, cb.y
+    );
+
+    // Jacobian of the perspective projection (pixels), camera looks down -z
+    float fx = projectionMatrix[0][0] * viewport.x * 0.5;
+    float fy = projectionMatrix[1][1] * viewport.y * 0.5;
+    float z = cam.z;
+    mat3 J = mat3(
+      -fx / z, 0.0, 0.0,
+      0.0, -fy / z, 0.0,
+      fx * cam.x / (z * z), fy * cam.y / (z * z), 0.0
+    );
+    mat3 T = J * mat3(modelViewMatrix);
+    mat3 cov2d = T * Vrk * transpose(T);
+
+    // low-pass filter keeps sub-pixel splats visible
+    float a = cov2d[0][0] + 0.3;
+    float b = cov2d[0][1];
+    float c = cov2d[1][1] + 0.3;
+
+    float mid = 0.5 * (a + c);
+    float radius = length(vec2(0.5 * (a - c), b));
+    float l1 = mid + radius;
+    float l2 = mid - radius;
+    if (l2 <= 0.0) {
+      gl_Position = vec4(0.0, 0.0, 2.0, 1.0);
+      return;
+    }
+
+    vec2 dir = abs(b) < 1e-6 ? (a >= c ? vec2(1.0, 0.0) : vec2(0.0, 1.0)) : normalize(vec2(b, l1 - a));
+    vec2 major = min(sqrt(2.0 * l1), 1024.0) * dir;
+    vec2 minor = min(sqrt(2.0 * l2), 1024.0) * vec2(dir.y, -dir.x);
+
+    vColor = texelFetch(colorTex, uv, 0);
+    vPosition = position.xy;
+
+    vec2 ndc = clip.xy / clip.w;
+    vec2 offset = (position.x * major + position.y * minor) * 2.0 / viewport;
+    gl_Position = vec4(ndc + offset, clip.z / clip.w, 1.0);
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  precision highp float;
+
+  uniform float opacity;
+
+  varying vec4 vColor;
+  varying vec2 vPosition;
+
+  void main() {
+    float A = -dot(vPosition, vPosition);
+    if (A < -4.0) discard;
+    float alpha = exp(A) * vColor.a * opacity;
+    if (alpha < 1.0 / 255.0) discard;
+    // premultiplied
+    gl_FragColor = vec4(vColor.rgb * alpha, alpha);
+  }
+`;
+
+function dataTexture(data: Float32Array | Uint8Array, rows: number, type: THREE.TextureDataType) {
+  const tex = new THREE.DataTexture(data, SPLAT_TEX_WIDTH, rows, THREE.RGBAFormat, type);
+  tex.minFilter = THREE.NearestFilter;
+  tex.magFilter = THREE.NearestFilter;
+  tex.generateMipmaps = false;
+  tex.needsUpdate = true;
+  return tex;
+}
+
+/**
+ * Anisotropic 3D Gaussian splats rendered as camera-facing quads,
+ * depth-sorted back-to-front and alpha blended (premultiplied).
+ * Sorting runs on the CPU whenever the view changes noticeably.
+ */
+export class GaussianSplatMesh extends THREE.Mesh<THREE.InstancedBufferGeometry, THREE.ShaderMaterial> {
+  readonly splatCount: number;
+
+  private centers: Float32Array;
+  private order: THREE.InstancedBufferAttribute;
+  private depths: Float32Array;
+  private counts = new Uint32Array(SORT_BINS);
+  private lastSortView = new Float32Array(4).fill(NaN);
+  private mv = new THREE.Matrix4();
+  private vp = new THREE.Vector4();
+  private textures: THREE.DataTexture[];
+
+  constructor(data: PackedSplats) {
+    const n = data.count;
+    const geo = new THREE.InstancedBufferGeometry();
+    geo.setAttribute('position', new THREE.Float32BufferAttribute([-2, -2, 0, 2, -2, 0, 2, 2, 0, -2, 2, 0], 3));
+    geo.setIndex([0, 1, 2, 0, 2, 3]);
+    const order = new THREE.InstancedBufferAttribute(new Float32Array(n), 1);
+    order.setUsage(THREE.DynamicDrawUsage);
+    for (let i = 0; i < n; i++) order.array[i] = i;
+    geo.setAttribute('splatIndex', order);
+    geo.instanceCount = n;
+
+    // texture rows were packed by packSplats (usually in the decode worker)
+    const textures = [
+      dataTexture(data.centerTex, data.rows, THREE.FloatType),
+      dataTexture(data.covATex, data.rows, THREE.FloatType),
+      dataTexture(data.covBTex, data.rows, THREE.FloatType),
+      dataTexture(data.colorTex, data.rows, THREE.UnsignedByteType),
+    ];
+    textures[3].colorSpace = THREE.NoColorSpace;
+
+    const mat = new THREE.ShaderMaterial({
+      uniforms: {
+        centerTex: { value: textures[0] },
+        covATex: { value: textures[1] },
+        covBTex: { value: textures[2] },
+        colorTex: { value: textures[3] },
+        viewport: { value: new THREE.Vector2(1, 1) },
+        texWidth: { value: SPLAT_TEX_WIDTH },
+        opacity: { value: 1 },
+      },
+      vertexShader,
+      fragmentShader,
+      transparent: true,
+      depthTest: true,
+      depthWrite: false,
+      blending: THREE.CustomBlending,
+      blendSrc: THREE.OneFactor,
+      blendDst: THREE.OneMinusSrcAlphaFactor,
+      blendSrcAlpha: THREE.OneFactor,
+      blendDstAlpha: THREE.OneMinusSrcAlphaFactor,
+    });
+
+    super(geo, mat);
+    this.splatCount = n;
+    this.centers = data.centers;
+    this.order = order;
+    this.depths = new Float32Array(n);
+    this.textures = textures;
+
+    // bounds from splat centers (the quad geometry says nothing about extent)
+    const box = new THREE.Box3(new THREE.Vector3(...data.boundsMin), new THREE.Vector3(...data.boundsMax));
+    geo.boundingBox = box;
+    geo.boundingSphere = box.getBoundingSphere(new THREE.Sphere());
+  }
+
+  /** Not pickable: the quad geometry doesn't represent the splats. */
+  raycast() {}
+
+  onBeforeRender(renderer: THREE.WebGLRenderer, _scene: THREE.Scene, camera: THREE.Camera) {
+    renderer.getCurrentViewport(this.vp);
+    this.material.uniforms.viewport.value.set(this.vp.z, this.vp.w);
+    this.material.uniforms.opacity.value = this.material.opacity;
+    this.material.uniformsNeedUpdate = true;
+
+    this.mv.multiplyMatrices(camera.matrixWorldInverse, this.matrixWorld);
+    if (this.viewChanged()) this.sort();
+  }
+
+  dispose() {
+    this.geometry.dispose();
+    this.material.dispose();
+    for (const t of this.textures) t.dispose();
+  }
+
+  /** Only re-sort when the depth axis (3rd row of model-view) moved noticeably. */
+  private viewChanged() {
+    const e = this.mv.elements, last = this.lastSortView;
+    const row = [e[2], e[6], e[10], e[14]];
+    const moved =
+      Number.isNaN(last[0]) ||
+      Math.abs(row[0] - last[0]) + Math.abs(row[1] - last[1]) + Math.abs(row[2] - last[2]) > 0.01 ||
+      Math.abs(row[3] - last[3]) > 0.01;
+    if (moved) last.set(row);
+    return moved;
+  }
+
+  /** Counting sort on quantized view depth, farthest first. */
+  private sort() {
+    const n = this.splatCount;
+    if (!n) return;
+    const e = this.mv.elements, c = this.centers, depths = this.depths;
+    let min = Infinity, max = -Infinity;
+    for (let i = 0; i < n; i++) {
+      // view-space z (negative in front of the camera; more negative = farther)
+      const d = e[2] * c[i * 3] + e[6] * c[i * 3 + 1] + e[10] * c[i * 3 + 2] + e[14];
+      depths[i] = d;
+      if (d < min) min = d;
+      if (d > max) max = d;
+    }
+    const scale = max > min ? (SORT_BINS - 1) / (max - min) : 0;
+    const counts = this.counts;
+    counts.fill(0);
+    for (let i = 0; i < n; i++) {
+      const k = ((depths[i] - min) * scale) | 0;
+      depths[i] = k;
+      counts[k]++;
+    }
+    for (let k = 1; k < SORT_BINS; k++) counts[k] += counts[k - 1];
+    const out = this.order.array as Float32Array;
+    // walk backwards so equal keys keep their order; counts[k] is end of bucket k
+    for (let i = n - 1; i >= 0; i--) out[--counts[depths[i]]] = i;
+    this.order.needsUpdate = true;
+  }
+}
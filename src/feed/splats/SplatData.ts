@@ -0,0 +1,74 @@
+// src/feed/splats/SplatData.ts
+// Decoded Gaussian splats in the layout GaussianSplatMesh uploads to the GPU.
+// Kept free of three.js so parsers can run anywhere (incl. workers).
+
+export type SplatData = {
+  count: number;
+  /** xyz per splat */
+  centers: Float32Array;
+  /** upper triangle of the 3D covariance per splat: xx, xy, xz, yy, yz, zz */
+  covariances: Float32Array;
+  /** rgba 0..255 per splat (SH degree 0 + opacity) */
+  colors: Uint8Array;
+};
+
+/** 0th-order spherical harmonic basis constant. */
+export const SH_C0 = 0.28209479177387814;
+
+/** Isotropic scale (m) used for plain point clouds without Gaussian attributes. */
+export const POINT_SPLAT_SCALE = 0.005;
+
+export function createSplatData(count: number): SplatData {
+  return {
+    count,
+    centers: new Float32Array(count * 3),
+    covariances: new Float32Array(count * 6),
+    colors: new Uint8Array(count * 4),
+  };
+}
+
+export const sigmoid = (v: number) => 1 / (1 + Math.exp(-v));
+
+/** SH DC coefficient → 0..255 color channel. */
+export const shToByte = (dc: number) => clampByte((0.5 + SH_C0 * dc) * 255);
+
+export const clampByte = (v: number) => (v <= 0 ? 0 : v >= 255 ? 255 : Math.round(v));
+
+/**
+ * Write one splat. `scale` is linear (not log), `rot` is a quaternion (w, x, y, z),
+ * normalized here. Covariance = R·S·Sᵀ·Rᵀ.
+ */
+export function setSplat(
+  d: SplatData,
+  i: number,
+  x: number, y: number, z: number,
+  sx: number, sy: number, sz: number,
+  qw: number, qx: number, qy: number, qz: number,
+  r: number, g: number, b: number, a: number
+) {
+  d.centers[i * 3 + 0] = x;
+  d.centers[i * 3 + 1] = y;
+  d.centers[i * 3 + 2] = z;
+
+  const len = Math.hypot(qw, qx, qy, qz) || 1;
+  const w = qw / len, qx_ = qx / len, qy_ = qy / len, qz_ = qz / len;
+
+  // rotation matrix rows
+  const r00 = 1 - 2 * (qy_ * qy_ + qz_ * qz_), r01 = 2 * (qx_ * qy_ - w * qz_), r02 = 2 * (qx_ * qz_ + w * qy_);
+  const r10 = 2 * (qx_ * qy_ + w * qz_), r11 = 1 - 2 * (qx_ * qx_ + qz_ * qz_), r12 = 2 * (qy_ * qz_ - w * qx_);
+  const r20 = 2 * (qx_ * qz_ - w * qy_), r21 = 2 * (qy_ * qz_ + w * qx_), r22 = 1 - 2 * (qx_ * qx_ + qy_ * qy_);
+
+  const s0 = sx * sx, s1 = sy * sy, s2 = sz * sz;
+  const c = d.covariances, o = i * 6;
+  c[o + 0] = r00 * r00 * s0 + r01 * r01 * s1 + r02 * r02 * s2;
+  c[o + 1] = r00 * r10 * s0 + r01 * r11 * s1 + r02 * r12 * s2;
+  c[o + 2] = r00 * r20 * s0 + r01 * r21 * s1 + r02 * r22 * s2;
+  c[o + 3] = r10 * r10 * s0 + r11 * r11 * s1 + r12 * r12 * s2;
+  c[o + 4] = r10 * r20 * s0 + r11 * r21 * s1 + r12 * r22 * s2;
+  c[o + 5] = r20 * r20 * s0 + r21 * r21 * s1 + r22 * r22 * s2;
+
+  d.colors[i * 4 + 0] = r;
+  d.colors[i * 4 + 1] = g;
+  d.colors[i * 4 + 2] = b;
+  d.colors[i * 4 + 3] = a;
+}
@@ -0,0 +1,116 @@
+// src/feed/splats/SplatDecoderPool.ts
+import { SplatFormat, fetchPackedSplats } from './decodeSplats';
+import { PackedSplats } from './packSplats';
+
+export type DecodeRequest = { id: number; url: string; format: SplatFormat };
+export type DecodeResponse = { id: number; splats: PackedSplats } | { id: number; error: string };
+
+type Job = DecodeRequest & { resolve: (p: PackedSplats) => void; reject: (e: Error) => void; crashes?: number };
+type Slot = { worker: Worker; job?: Job };
+
+/** Worker deaths before a job is given up on, or – if no worker ever answered – before falling back. */
+const MAX_CRASHES = 3;
+
+/**
+ * Fetches and decodes splat files on a small pool of module workers; results
+ * come back as transferred typed arrays ready for GaussianSplatMesh.
+ * A worker that dies is replaced; decoding falls back to the main thread only
+ * where workers can't be started at all.
+ */
+export class SplatDecoderPool {
+  private slots: Slot[] = [];
+  private queue: Job[] = [];
+  private nextId = 1;
+  private mainThread = typeof Worker === 'undefined';
+  /** Some worker has answered, so workers do start here. */
+  private workersWork = false;
+  private crashes = 0;
+
+  constructor(private size = Math.max(1, Math.min(2, (globalThis.navigator?.hardwareConcurrency || 2) - 1))) {}
+
+  decode(url: string, format: SplatFormat): Promise<PackedSplats> {
+    // workers resolve relative URLs against their own script, not the page
+    const abs = new URL(url, location.href).href;
+    if (this.mainThread) return fetchPackedSplats(abs, format);
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, url: abs, format, resolve, reject });
+      this.drain();
+    });
+  }
+
+  dispose() {
+    for (const s of this.slots) {
+      s.worker.terminate();
+      s.job?.reject(new Error('Decoder pool disposed'));
+    }
+    for (const j of this.queue) j.reject(new Error('Decoder pool disposed'));
+    this.slots = [];
+    this.queue = [];
+  }
+
+  private drain() {
+    while (this.queue.length) {
+      if (this.mainThread) {
+        const job = this.queue.shift()!;
+        fetchPackedSplats(job.url, job.format).then(job.resolve, job.reject);
+        continue;
+      }
+      const slot = this.slots.find((s) => !s.job) ?? (this.slots.length < this.size ? this.spawn() : undefined);
+      if (!slot) return;
+      const job = this.queue.shift()!;
+      slot.job = job;
+      const req: DecodeRequest = { id: job.id, url: job.url, format: job.format };
+      slot.worker.postMessage(req);
+    }
+  }
+
+  private spawn(): Slot | undefined {
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('./decode.worker.ts', import.meta.url), { type: 'module' });
+    } catch (e) {
+      this.fallBack(e);
+      return undefined;
+    }
+    const slot: Slot = { worker };
+    worker.onmessage = (ev: MessageEvent<DecodeResponse>) => {
+      this.workersWork = true;
+      const job = slot.job;
+      slot.job = undefined;
+      if (job && job.id === ev.data.id) {
+        if ('error' in ev.data) job.reject(new Error(ev.data.error));
+        else job.resolve(ev.data.splats);
+      }
+      this.drain();
+    };
+    // script failed to load or the worker died: replace it and retry its job
+    worker.onerror = (ev) => {
+      ev.preventDefault();
+      worker.terminate();
+      this.slots = this.slots.filter((s) => s !== slot);
+      const job = slot.job;
+      if (job) {
+        job.crashes = (job.crashes ?? 0) + 1;
+        if (job.crashes >= MAX_CRASHES) job.reject(new Error(`Decode worker died: ${ev.message}`));
+        else this.queue.unshift(job);
+      }
+      if (!this.workersWork && ++this.crashes >= MAX_CRASHES) {
+        this.fallBack(ev.message);
+        return;
+      }
+      console.warn('Splat decode worker died, restarting it:', ev.message);
+      this.drain();
+    };
+    this.slots.push(slot);
+    return slot;
+  }
+
+  private fallBack(reason: unknown) {
+    if (!this.mainThread) console.warn('Splat decode worker unavailable, decoding on the main thread:', reason);
+    this.mainThread = true;
+    this.drain();
+  }
+}
+
+/** Shared pool used by SplatSequence (workers start lazily on first decode). */
+export const splatDecoderPool = new SplatDecoderPool();
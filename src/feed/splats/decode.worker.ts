@@ -0,0 +1,20 @@
+// src/feed/splats/decode.worker.ts
+// Runs in a module worker spawned by SplatDecoderPool.
+import { fetchPackedSplats } from './decodeSplats';
+import { packedTransferables } from './packSplats';
+import type { DecodeRequest, DecodeResponse } from './SplatDecoderPool';
+
+// the project compiles against the DOM lib; a dedicated worker scope has the same shape as Worker
+const scope = self as unknown as Worker;
+
+scope.onmessage = async (ev: MessageEvent<DecodeRequest>) => {
+  const { id, url, format } = ev.data;
+  try {
+    const splats = await fetchPackedSplats(url, format);
+    const res: DecodeResponse = { id, splats };
+    scope.postMessage(res, packedTransferables(splats));
+  } catch (e) {
+    const res: DecodeResponse = { id, error: e instanceof Error ? e.message : String(e) };
+    scope.postMessage(res);
+  }
+};
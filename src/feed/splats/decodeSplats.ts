@@ -0,0 +1,33 @@
+// src/feed/splats/decodeSplats.ts
+import { SplatData } from './SplatData';
+import { parsePly } from './parsePly';
+import { parseSplat } from './parseSplat';
+import { parseKsplat } from './parseKsplat';
+import { parseSpz } from './parseSpz';
+import { PackedSplats, packSplats } from './packSplats';
+
+export type SplatFormat = 'ply' | 'splat' | 'ksplat' | 'spz';
+export const SPLAT_FORMATS: readonly SplatFormat[] = ['ply', 'splat', 'ksplat', 'spz'];
+
+/** Format from the URL's file extension (query/hash ignored), or null if unknown. */
+export function splatFormatFromUrl(url: string): SplatFormat | null {
+  const path = url.split(/[?#]/)[0].toLowerCase();
+  const ext = path.slice(path.lastIndexOf('.') + 1);
+  return (SPLAT_FORMATS as readonly string[]).includes(ext) ? (ext as SplatFormat) : null;
+}
+
+export function decodeSplats(buffer: ArrayBuffer, format: SplatFormat): SplatData {
+  switch (format) {
+    case 'ply': return parsePly(buffer);
+    case 'splat': return parseSplat(buffer);
+    case 'ksplat': return parseKsplat(buffer);
+    case 'spz': return parseSpz(buffer);
+  }
+}
+
+/** Fetch, decode and pack one splat file (what the decode worker runs). */
+export async function fetchPackedSplats(url: string, format: SplatFormat): Promise<PackedSplats> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to fetch ${url} (${res.status})`);
+  return packSplats(decodeSplats(await res.arrayBuffer(), format));
+}
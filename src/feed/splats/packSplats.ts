@@ -0,0 +1,62 @@
+// src/feed/splats/packSplats.ts
+// SplatData → the RGBA texture rows GaussianSplatMesh uploads as-is.
+// Done off the main thread (decode worker) so frames are ready to upload.
+import { SplatData } from './SplatData';
+
+/** Splat attributes live in float textures this wide (rows = ceil(count / width)). */
+export const SPLAT_TEX_WIDTH = 2048;
+
+export type PackedSplats = {
+  count: number;
+  rows: number;
+  /** xyz per splat, kept for CPU depth sorting */
+  centers: Float32Array;
+  /** RGBA texels, SPLAT_TEX_WIDTH × rows each */
+  centerTex: Float32Array;
+  /** covariance xx, xy, xz, yy */
+  covATex: Float32Array;
+  /** covariance yz, zz */
+  covBTex: Float32Array;
+  colorTex: Uint8Array;
+  boundsMin: [number, number, number];
+  boundsMax: [number, number, number];
+};
+
+export function packSplats(d: SplatData): PackedSplats {
+  const n = d.count;
+  const rows = Math.max(1, Math.ceil(n / SPLAT_TEX_WIDTH));
+  const texels = SPLAT_TEX_WIDTH * rows * 4;
+  const centerTex = new Float32Array(texels);
+  const covATex = new Float32Array(texels);
+  const covBTex = new Float32Array(texels);
+  const colorTex = new Uint8Array(texels);
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+
+  for (let i = 0; i < n; i++) {
+    const t = i * 4, c = i * 3, v = i * 6;
+    for (let k = 0; k < 3; k++) {
+      const x = d.centers[c + k];
+      centerTex[t + k] = x;
+      if (x < min[k]) min[k] = x;
+      if (x > max[k]) max[k] = x;
+    }
+    covATex[t + 0] = d.covariances[v + 0];
+    covATex[t + 1] = d.covariances[v + 1];
+    covATex[t + 2] = d.covariances[v + 2];
+    covATex[t + 3] = d.covariances[v + 3];
+    covBTex[t + 0] = d.covariances[v + 4];
+    covBTex[t + 1] = d.covariances[v + 5];
+    for (let k = 0; k < 4; k++) colorTex[t + k] = d.colors[t + k];
+  }
+  if (!n) {
+    min.fill(0);
+    max.fill(0);
+  }
+  return { count: n, rows, centers: d.centers, centerTex, covATex, covBTex, colorTex, boundsMin: min, boundsMax: max };
+}
+
+/** Buffers to hand over (not copy) when posting packed splats between threads. */
+export function packedTransferables(p: PackedSplats): ArrayBuffer[] {
+  return [p.centers, p.centerTex, p.covATex, p.covBTex, p.colorTex].map((a) => a.buffer as ArrayBuffer);
+}
@@ -0,0 +1,102 @@
+// src/feed/splats/parseKsplat.ts
+// GaussianSplats3D ".ksplat": 4 KB main header, 1 KB per section header, then per section
+// bucket metadata/centers followed by splat rows. Compression levels 0 (f32) and 1/2
+// (u16 bucket-relative centers, f16 scale/rotation) are supported; SH bands are skipped.
+import { SplatData, createSplatData, setSplat } from './SplatData';
+
+const HEADER_BYTES = 4096;
+const SECTION_HEADER_BYTES = 1024;
+const SH_COMPONENTS = [0, 9, 24, 45];
+
+const LEVELS: Record<number, { center: number; scale: number; rotation: number; color: number; sh: number; scaleRange: number }> = {
+  0: { center: 12, scale: 12, rotation: 16, color: 4, sh: 4, scaleRange: 1 },
+  1: { center: 6, scale: 6, rotation: 8, color: 4, sh: 2, scaleRange: 32767 },
+  2: { center: 6, scale: 6, rotation: 8, color: 4, sh: 1, scaleRange: 32767 },
+};
+
+function fromHalf(h: number): number {
+  const s = h & 0x8000 ? -1 : 1;
+  const e = (h >> 10) & 0x1f;
+  const f = h & 0x3ff;
+  if (e === 0) return s * Math.pow(2, -14) * (f / 1024);
+  if (e === 31) return f ? NaN : s * Infinity;
+  return s * Math.pow(2, e - 15) * (1 + f / 1024);
+}
+
+export function parseKsplat(buffer: ArrayBuffer): SplatData {
+  if (buffer.byteLength < HEADER_BYTES) throw new Error('.ksplat: file is truncated');
+  const head = new DataView(buffer, 0, HEADER_BYTES);
+  const major = head.getUint8(0), minor = head.getUint8(1);
+  if (major !== 0 || minor < 1) throw new Error(`.ksplat: unsupported version ${major}.${minor}`);
+  const maxSections = head.getUint32(4, true);
+  const splatCount = head.getUint32(16, true);
+  const level = head.getUint16(20, true);
+  const L = LEVELS[level];
+  if (!L) throw new Error(`.ksplat: unsupported compression level ${level}`);
+
+  const out = createSplatData(splatCount);
+  const view = new DataView(buffer);
+  let base = HEADER_BYTES + maxSections * SECTION_HEADER_BYTES;
+  let written = 0;
+
+  for (let s = 0; s < maxSections; s++) {
+    const h = HEADER_BYTES + s * SECTION_HEADER_BYTES;
+    const count = view.getUint32(h, true);
+    const maxCount = view.getUint32(h + 4, true);
+    const bucketSize = view.getUint32(h + 8, true);
+    const bucketCount = view.getUint32(h + 12, true);
+    const blockSize = view.getFloat32(h + 16, true);
+    const bucketStorageBytes = view.getUint16(h + 20, true);
+    const scaleRange = view.getUint32(h + 24, true) || L.scaleRange;
+    const fullBuckets = view.getUint32(h + 32, true);
+    const partialBuckets = view.getUint32(h + 36, true);
+    const shDegree = view.getUint16(h + 40, true);
+
+    const metaBytes = partialBuckets * 4;
+    const bucketsBytes = bucketStorageBytes * bucketCount + metaBytes;
+    const rowBytes = L.center + L.scale + L.rotation + L.color + (SH_COMPONENTS[shDegree] ?? 0) * L.sh;
+    const dataBase = base + bucketsBytes;
+    if (dataBase + count * rowBytes > buffer.byteLength) throw new Error('.ksplat: file is truncated');
+
+    // bucket walk for compressed centers: full buckets first, then partially filled ones
+    const centerScale = blockSize / 2 / scaleRange;
+    const bucketsBase = base + metaBytes;
+    let bucket = 0, leftInBucket = level > 0 ? (fullBuckets > 0 ? bucketSize : view.getUint32(base, true)) : 0;
+
+    for (let i = 0; i < count; i++) {
+      const p = dataBase + i * rowBytes;
+      let x: number, y: number, z: number, sx: number, sy: number, sz: number;
+      let qw: number, qx: number, qy: number, qz: number;
+
+      if (level === 0) {
+        x = view.getFloat32(p, true); y = view.getFloat32(p + 4, true); z = view.getFloat32(p + 8, true);
+        sx = view.getFloat32(p + 12, true); sy = view.getFloat32(p + 16, true); sz = view.getFloat32(p + 20, true);
+        qw = view.getFloat32(p + 24, true); qx = view.getFloat32(p + 28, true);
+        qy = view.getFloat32(p + 32, true); qz = view.getFloat32(p + 36, true);
+      } else {
+        while (leftInBucket === 0) {
+          if (++bucket >= bucketCount) throw new Error('.ksplat: more splats than buckets');
+          leftInBucket = bucket < fullBuckets ? bucketSize : view.getUint32(base + (bucket - fullBuckets) * 4, true);
+        }
+        leftInBucket--;
+        const bc = bucketsBase + bucket * 12;
+        x = (view.getUint16(p, true) - scaleRange) * centerScale + view.getFloat32(bc, true);
+        y = (view.getUint16(p + 2, true) - scaleRange) * centerScale + view.getFloat32(bc + 4, true);
+        z = (view.getUint16(p + 4, true) - scaleRange) * centerScale + view.getFloat32(bc + 8, true);
+        sx = fromHalf(view.getUint16(p + 6, true)); sy = fromHalf(view.getUint16(p + 8, true)); sz = fromHalf(view.getUint16(p + 10, true));
+        qw = fromHalf(view.getUint16(p + 12, true)); qx = fromHalf(view.getUint16(p + 14, true));
+        qy = fromHalf(view.getUint16(p + 16, true)); qz = fromHalf(view.getUint16(p + 18, true));
+      }
+
+      const c = p + L.center + L.scale + L.rotation;
+      setSplat(
+        out, written++, x, y, z, sx, sy, sz, qw, qx, qy, qz,
+        view.getUint8(c), view.getUint8(c + 1), view.getUint8(c + 2), view.getUint8(c + 3)
+      );
+    }
+    base += bucketsBytes + rowBytes * maxCount;
+  }
+
+  if (written !== splatCount) throw new Error('.ksplat: splat count does not match sections');
+  return out;
+}
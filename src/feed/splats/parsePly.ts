@@ -0,0 +1,137 @@
+// src/feed/splats/parsePly.ts
+// PLY → SplatData. Understands 3DGS attributes (f_dc_*, opacity, scale_*, rot_*)
+// and falls back to small round splats for plain colored point clouds.
+import {
+  SplatData, createSplatData, setSplat, sigmoid, shToByte, clampByte, POINT_SPLAT_SCALE,
+} from './SplatData';
+
+type PlyFormat = 'ascii' | 'binary_little_endian' | 'binary_big_endian';
+type Prop = { name: string; type: string; list?: { countType: string; itemType: string } };
+type Element = { name: string; count: number; props: Prop[] };
+
+const TYPE_SIZE: Record<string, number> = {
+  char: 1, int8: 1, uchar: 1, uint8: 1,
+  short: 2, int16: 2, ushort: 2, uint16: 2,
+  int: 4, int32: 4, uint: 4, uint32: 4,
+  float: 4, float32: 4, double: 8, float64: 8,
+};
+
+function readScalar(view: DataView, offset: number, type: string, le: boolean): number {
+  switch (type) {
+    case 'char': case 'int8': return view.getInt8(offset);
+    case 'uchar': case 'uint8': return view.getUint8(offset);
+    case 'short': case 'int16': return view.getInt16(offset, le);
+    case 'ushort': case 'uint16': return view.getUint16(offset, le);
+    case 'int': case 'int32': return view.getInt32(offset, le);
+    case 'uint': case 'uint32': return view.getUint32(offset, le);
+    case 'float': case 'float32': return view.getFloat32(offset, le);
+    case 'double': case 'float64': return view.getFloat64(offset, le);
+  }
+  throw new Error(`PLY: unsupported property type "${type}"`);
+}
+
+function parseHeader(buffer: ArrayBuffer) {
+  const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 64 * 1024));
+  const text = new TextDecoder().decode(bytes);
+  const end = text.indexOf('end_header');
+  if (!text.startsWith('ply') || end < 0) throw new Error('PLY: missing header');
+  const nl = text.indexOf('\n', end);
+  const headerLength = new TextEncoder().encode(text.slice(0, nl + 1)).length;
+
+  let format: PlyFormat | null = null;
+  const elements: Element[] = [];
+  for (const raw of text.slice(0, end).split('\n')) {
+    const parts = raw.trim().split(/\s+/);
+    if (parts[0] === 'format') format = parts[1] as PlyFormat;
+    else if (parts[0] === 'element') elements.push({ name: parts[1], count: parseInt(parts[2], 10), props: [] });
+    else if (parts[0] === 'property' && elements.length) {
+      const el = elements[elements.length - 1];
+      if (parts[1] === 'list') el.props.push({ name: parts[4], type: 'list', list: { countType: parts[2], itemType: parts[3] } });
+      else el.props.push({ name: parts[2], type: parts[1] });
+    }
+  }
+  if (!format) throw new Error('PLY: missing format line');
+  return { format, elements, headerLength };
+}
+
+/** Resolves a vertex property to a per-index getter (undefined if the file lacks it). */
+type FieldLookup = (name: string) => ((i: number) => number) | undefined;
+
+function binaryFields(buffer: ArrayBuffer, start: number, el: Element, le: boolean): FieldLookup {
+  const offsets = new Map<string, { off: number; type: string }>();
+  let stride = 0;
+  for (const p of el.props) {
+    if (p.list) throw new Error('PLY: list properties on vertices are not supported');
+    offsets.set(p.name, { off: stride, type: p.type });
+    stride += TYPE_SIZE[p.type] ?? 0;
+  }
+  if (start + stride * el.count > buffer.byteLength) throw new Error('PLY: file is truncated');
+  const view = new DataView(buffer, start);
+  return (name) => {
+    const o = offsets.get(name);
+    if (!o) return undefined;
+    if (o.type === 'float' || o.type === 'float32') return (i) => view.getFloat32(i * stride + o.off, le);
+    return (i) => readScalar(view, i * stride + o.off, o.type, le);
+  };
+}
+
+function asciiFields(buffer: ArrayBuffer, start: number, el: Element): FieldLookup {
+  const lines = new TextDecoder().decode(new Uint8Array(buffer, start)).split('\n');
+  const rows: number[][] = [];
+  for (let i = 0; i < el.count; i++) rows.push(lines[i].trim().split(/\s+/).map(Number));
+  return (name) => {
+    const k = el.props.findIndex((p) => p.name === name);
+    return k < 0 ? undefined : (i) => rows[i][k];
+  };
+}
+
+export function parsePly(buffer: ArrayBuffer): SplatData {
+  const { format, elements, headerLength } = parseHeader(buffer);
+  const vi = elements.findIndex((e) => e.name === 'vertex');
+  if (vi < 0) throw new Error('PLY: no vertex element');
+  if (vi > 0) throw new Error('PLY: vertex element must come first');
+  const el = elements[vi];
+
+  const field =
+    format === 'ascii'
+      ? asciiFields(buffer, headerLength, el)
+      : binaryFields(buffer, headerLength, el, format === 'binary_little_endian');
+  const zero = () => 0;
+  const f = (name: string) => field(name) ?? zero;
+
+  const x = f('x'), y = f('y'), z = f('z');
+  const gaussian = !!field('scale_0') && !!field('rot_0');
+  const sh = !!field('f_dc_0');
+  const dc0 = f('f_dc_0'), dc1 = f('f_dc_1'), dc2 = f('f_dc_2');
+  const red = field('red'), green = f('green'), blue = f('blue');
+  const opacity = field('opacity'), alpha = field('alpha');
+  const s0 = f('scale_0'), s1 = f('scale_1'), s2 = f('scale_2');
+  const q0 = f('rot_0'), q1 = f('rot_1'), q2 = f('rot_2'), q3 = f('rot_3');
+  // float colors are 0..1, integer colors 0..255
+  const colorScale = el.props.find((p) => p.name === 'red')?.type.startsWith('float') ? 255 : 1;
+
+  const out = createSplatData(el.count);
+  for (let i = 0; i < el.count; i++) {
+    let r = 230, g = 230, b = 230, a = 255;
+    if (sh) {
+      r = shToByte(dc0(i)); g = shToByte(dc1(i)); b = shToByte(dc2(i));
+    } else if (red) {
+      r = clampByte(red(i) * colorScale); g = clampByte(green(i) * colorScale); b = clampByte(blue(i) * colorScale);
+    }
+    if (opacity) a = clampByte(sigmoid(opacity(i)) * 255);
+    else if (alpha) a = clampByte(alpha(i) * colorScale);
+
+    if (gaussian) {
+      setSplat(
+        out, i, x(i), y(i), z(i),
+        Math.exp(s0(i)), Math.exp(s1(i)), Math.exp(s2(i)),
+        q0(i), q1(i), q2(i), q3(i),
+        r, g, b, a
+      );
+    } else {
+      const s = POINT_SPLAT_SCALE;
+      setSplat(out, i, x(i), y(i), z(i), s, s, s, 1, 0, 0, 0, r, g, b, a);
+    }
+  }
+  return out;
+}
@@ -0,0 +1,25 @@
+// src/feed/splats/parseSplat.ts
+// antimatter15 ".splat": 32 bytes per splat, no header.
+//   position f32×3 | scale f32×3 (linear) | rgba u8×4 | rotation u8×4 (w,x,y,z as q·128+128)
+import { SplatData, createSplatData, setSplat } from './SplatData';
+
+const ROW_BYTES = 32;
+
+export function parseSplat(buffer: ArrayBuffer): SplatData {
+  if (buffer.byteLength % ROW_BYTES !== 0) throw new Error('.splat: size is not a multiple of 32 bytes');
+  const n = buffer.byteLength / ROW_BYTES;
+  const f = new Float32Array(buffer);
+  const u = new Uint8Array(buffer);
+  const out = createSplatData(n);
+  for (let i = 0; i < n; i++) {
+    const fo = i * 8, uo = i * ROW_BYTES;
+    setSplat(
+      out, i,
+      f[fo], f[fo + 1], f[fo + 2],
+      f[fo + 3], f[fo + 4], f[fo + 5],
+      (u[uo + 28] - 128) / 128, (u[uo + 29] - 128) / 128, (u[uo + 30] - 128) / 128, (u[uo + 31] - 128) / 128,
+      u[uo + 24], u[uo + 25], u[uo + 26], u[uo + 27]
+    );
+  }
+  return out;
+}
@@ -0,0 +1,78 @@
+// src/feed/splats/parseSpz.ts
+// Niantic ".spz" (versions 2 and 3): gzip stream of a 16-byte header followed by
+// column-packed positions, alphas, colors, scales, rotations (SH bands are skipped).
+import { gunzipSync } from 'three/examples/jsm/libs/fflate.module.js';
+import { SplatData, createSplatData, setSplat, shToByte } from './SplatData';
+
+const MAGIC = 0x5053474e; // "NGSP"
+const COLOR_SCALE = 0.15;
+
+export function parseSpz(buffer: ArrayBuffer): SplatData {
+  const bytes = gunzipSync(new Uint8Array(buffer));
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint32(0, true) !== MAGIC) throw new Error('.spz: bad magic');
+  const version = view.getUint32(4, true);
+  if (version < 2 || version > 3) throw new Error(`.spz: unsupported version ${version}`);
+  const n = view.getUint32(8, true);
+  const fractionalBits = view.getUint8(13);
+
+  const posOff = 16;
+  const alphaOff = posOff + n * 9;
+  const colorOff = alphaOff + n;
+  const scaleOff = colorOff + n * 3;
+  const rotOff = scaleOff + n * 3;
+  const rotBytes = version >= 3 ? 4 : 3;
+  if (rotOff + n * rotBytes > bytes.byteLength) throw new Error('.spz: file is truncated');
+
+  const posScale = 1 / (1 << fractionalBits);
+  const fixed24 = (o: number) => {
+    let v = bytes[o] | (bytes[o + 1] << 8) | (bytes[o + 2] << 16);
+    if (v & 0x800000) v |= ~0xffffff; // sign-extend
+    return v * posScale;
+  };
+
+  const q = [0, 0, 0, 0]; // x, y, z, w
+  const out = createSplatData(n);
+  for (let i = 0; i < n; i++) {
+    const p = posOff + i * 9;
+    if (version >= 3) readSmallestThree(bytes, rotOff + i * 4, q);
+    else {
+      const r = rotOff + i * 3;
+      q[0] = bytes[r] / 127.5 - 1;
+      q[1] = bytes[r + 1] / 127.5 - 1;
+      q[2] = bytes[r + 2] / 127.5 - 1;
+      q[3] = Math.sqrt(Math.max(0, 1 - q[0] * q[0] - q[1] * q[1] - q[2] * q[2]));
+    }
+    const c = colorOff + i * 3, s = scaleOff + i * 3;
+    const dc = (k: number) => (bytes[c + k] / 255 - 0.5) / COLOR_SCALE;
+    const scale = (k: number) => Math.exp(bytes[s + k] / 16 - 10);
+
+    // .spz is RUB; flip Y/Z (180° about X) to match the RDF convention of PLY/.splat
+    setSplat(
+      out, i,
+      fixed24(p), -fixed24(p + 3), -fixed24(p + 6),
+      scale(0), scale(1), scale(2),
+      q[3], q[0], -q[1], -q[2],
+      shToByte(dc(0)), shToByte(dc(1)), shToByte(dc(2)), bytes[alphaOff + i]
+    );
+  }
+  return out;
+}
+
+/** v3 rotations: index of the largest component (2 bits) + three 10-bit signed others. */
+function readSmallestThree(bytes: Uint8Array, o: number, q: number[]) {
+  const MASK = (1 << 9) - 1;
+  let comp = (bytes[o] | (bytes[o + 1] << 8) | (bytes[o + 2] << 16) | (bytes[o + 3] << 24)) >>> 0;
+  const largest = comp >>> 30;
+  let sum = 0;
+  for (let k = 3; k >= 0; k--) {
+    if (k === largest) continue;
+    const mag = comp & MASK;
+    const neg = (comp >>> 9) & 1;
+    comp >>>= 10;
+    const v = (Math.SQRT1_2 * mag) / MASK;
+    q[k] = neg ? -v : v;
+    sum += v * v;
+  }
+  q[largest] = Math.sqrt(Math.max(0, 1 - sum));
+}
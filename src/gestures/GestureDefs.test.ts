@@ -0,0 +1,238 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import {
+  BUILTIN_GESTURES, CURLED, EXTENDED, Finger, HandCondition, HandPose, OneHandGesture, Side, TIPS, TwoHandGesture,
+  matchBoth, matchHand, palmNormal,
+} from './GestureDefs';
+
+const FINGERS: Finger[] = ['thumb', 'index', 'middle', 'ring', 'pinky'];
+/** Fan of the fingers (degrees from straight ahead, towards the pinky). */
+const SPREAD: Record<Finger, number> = { thumb: -40, index: -15, middle: 0, ring: 10, pinky: 20 };
+/** Comfortably curled / extended tip-to-wrist distances (m). */
+const IN = 0.06;
+const OUT = 0.1;
+/** Just either side of a threshold. */
+const EPS = 1e-4;
+
+/**
+ * A hand with the wrist at the origin pointing down -z, palm facing `palm`.
+ * `reach` is each tip's distance from the wrist (default: curled).
+ */
+function hand(side: Side, reach: Partial<Record<Finger, number>> = {}, palm: 'down' | 'up' = 'down'): HandPose {
+  // the index knuckle is on the thumb side: -x for a right hand palm down
+  const s = (side === 'right' ? 1 : -1) * (palm === 'down' ? 1 : -1);
+  const pose: HandPose = {
+    wrist: new THREE.Vector3(0, 0, 0),
+    'index-finger-phalanx-proximal': new THREE.Vector3(-0.03 * s, 0, -0.08),
+    'pinky-finger-phalanx-proximal': new THREE.Vector3(0.03 * s, 0, -0.07),
+  };
+  for (const f of FINGERS) {
+    const a = THREE.MathUtils.degToRad(SPREAD[f]) * s;
+    pose[TIPS[f]] = new THREE.Vector3(Math.sin(a), 0, -Math.cos(a)).multiplyScalar(reach[f] ?? IN);
+  }
+  return pose;
+}
+
+function oneHand(name: string): HandCondition {
+  return (BUILTIN_GESTURES.find((g) => g.name === name) as OneHandGesture).pose;
+}
+
+/** Move `finger`'s tip to `gap` m from the index tip (along +y). */
+function tipNearIndex(pose: HandPose, finger: Finger, gap: number) {
+  pose[TIPS[finger]] = pose['index-finger-tip']!.clone().add(new THREE.Vector3(0, gap, 0));
+  return pose;
+}
+
+const POSES: Record<string, Partial<Record<Finger, number>>> = {
+  thumbsup: { thumb: OUT },
+  ily: { thumb: OUT, index: OUT, pinky: OUT },
+  peace: { index: OUT, middle: OUT },
+};
+
+describe('built-in one-hand gestures', () => {
+  it.each(Object.keys(POSES))('%s matches its own pose only, on either hand', (name) => {
+    for (const side of ['left', 'right'] as Side[]) {
+      for (const [other, reach] of Object.entries(POSES)) {
+        expect(matchHand(oneHand(name), hand(side, reach), side)).toBe(other === name);
+      }
+    }
+  });
+
+  it('peace leaves the thumb free', () => {
+    const peace = oneHand('peace');
+    expect(matchHand(peace, hand('right', { ...POSES.peace, thumb: OUT }), 'right')).toBe(true);
+    expect(matchHand(peace, hand('right', { ...POSES.peace, thumb: IN }), 'right')).toBe(true);
+  });
+
+  it('pinch: thumb and index tips closer than 0.035', () => {
+    const pinch = oneHand('pinch');
+    expect(matchHand(pinch, tipNearIndex(hand('left'), 'thumb', 0.01), 'left')).toBe(true);
+    expect(matchHand(pinch, tipNearIndex(hand('left'), 'thumb', 0.035 - EPS), 'left')).toBe(true);
+    expect(matchHand(pinch, tipNearIndex(hand('left'), 'thumb', 0.035 + EPS), 'left')).toBe(false);
+    expect(matchHand(pinch, hand('left', { thumb: OUT, index: OUT }), 'left')).toBe(false);
+  });
+
+  it('fails when a joint it needs is not tracked', () => {
+    const pose = hand('right', POSES.thumbsup);
+    delete pose['ring-finger-tip'];
+    expect(matchHand(oneHand('thumbsup'), pose, 'right')).toBe(false);
+    // tip-to-tip conditions don't need the wrist
+    delete pose.wrist;
+    expect(matchHand(oneHand('pinch'), tipNearIndex(pose, 'thumb', 0.01), 'right')).toBe(true);
+  });
+});
+
+describe('thresholds', () => {
+  it.each<[string, number, boolean]>([
+    ['extended', EXTENDED + EPS, true],
+    ['extended', EXTENDED - EPS, false],
+    ['curled', CURLED - EPS, true],
+    ['curled', CURLED + EPS, false],
+  ])('a finger counts as %s at %f: %s', (state, reach, expected) => {
+    const cond: HandCondition = { fingers: { middle: state as 'extended' | 'curled' } };
+    expect(matchHand(cond, hand('right', { middle: reach }), 'right')).toBe(expected);
+  });
+
+  it('keeps the old distances', () => {
+    expect(EXTENDED).toBe(0.085);
+    expect(CURLED).toBe(0.075);
+  });
+
+  it('ily takes a thumb out beyond 0.080, short of the usual 0.085', () => {
+    const ily = oneHand('ily');
+    expect(matchHand(ily, hand('right', { ...POSES.ily, thumb: 0.080 + EPS }), 'right')).toBe(true);
+    expect(matchHand(ily, hand('right', { ...POSES.ily, thumb: 0.080 - EPS }), 'right')).toBe(false);
+    // the same thumb is not out enough for a thumbs-up
+    expect(matchHand(oneHand('thumbsup'), hand('right', { thumb: 0.080 + EPS }), 'right')).toBe(false);
+  });
+
+  it('a finger can set its own distances', () => {
+    const cond: HandCondition = { fingers: { index: { extended: 0.05 }, ring: { curled: 0.04 } } };
+    expect(matchHand(cond, hand('left', { index: 0.05 + EPS, ring: 0.04 - EPS }), 'left')).toBe(true);
+    expect(matchHand(cond, hand('left', { index: 0.05 - EPS, ring: 0.04 - EPS }), 'left')).toBe(false);
+    expect(matchHand(cond, hand('left', { index: 0.05 + EPS, ring: 0.04 + EPS }), 'left')).toBe(false);
+  });
+});
+
+describe('heart (two hands)', () => {
+  const heart = BUILTIN_GESTURES.find((g) => g.name === 'heart') as TwoHandGesture;
+
+  /** Right tips `index` / `thumb` m away from the left hand's. */
+  function hands(index: number, thumb: number): [HandPose, HandPose] {
+    const left = hand('left', { index: OUT, thumb: OUT });
+    const right = hand('right', { index: OUT, thumb: OUT });
+    right['index-finger-tip'] = left['index-finger-tip']!.clone().add(new THREE.Vector3(index, 0, 0));
+    right['thumb-tip'] = left['thumb-tip']!.clone().add(new THREE.Vector3(thumb, 0, 0));
+    return [left, right];
+  }
+
+  it('needs index tips and thumb tips touching, closer than 0.045', () => {
+    expect(matchBoth(heart, ...hands(0.01, 0.01))).toBe(true);
+    expect(matchBoth(heart, ...hands(0.045 - EPS, 0.045 - EPS))).toBe(true);
+    expect(matchBoth(heart, ...hands(0.045 + EPS, 0.01))).toBe(false);
+    expect(matchBoth(heart, ...hands(0.01, 0.045 + EPS))).toBe(false);
+  });
+
+  it('fails with a hand missing', () => {
+    const [left] = hands(0.01, 0.01);
+    expect(matchBoth(heart, left, {})).toBe(false);
+  });
+});
+
+describe('registered definitions', () => {
+  const fist: OneHandGesture = {
+    name: 'fist',
+    hands: 'one',
+    pose: { fingers: { thumb: 'curled', index: 'curled', middle: 'curled', ring: 'curled', pinky: 'curled' } },
+  };
+  const point: OneHandGesture = {
+    name: 'point',
+    hands: 'one',
+    pose: { fingers: { index: 'extended', middle: 'curled', ring: 'curled', pinky: 'curled' } },
+  };
+  const ok: OneHandGesture = {
+    name: 'ok',
+    hands: 'one',
+    pose: {
+      tips: [{ a: 'thumb', b: 'index', lt: 0.03 }],
+      fingers: { middle: 'extended', ring: 'extended', pinky: 'extended' },
+    },
+  };
+
+  it('fist: everything curled', () => {
+    expect(matchHand(fist.pose, hand('right'), 'right')).toBe(true);
+    expect(matchHand(fist.pose, hand('right', { thumb: OUT }), 'right')).toBe(false);
+  });
+
+  it('point: only the index out', () => {
+    expect(matchHand(point.pose, hand('left', { index: OUT }), 'left')).toBe(true);
+    expect(matchHand(point.pose, hand('left', { index: OUT, thumb: OUT }), 'left')).toBe(true);
+    expect(matchHand(point.pose, hand('left', POSES.peace), 'left')).toBe(false);
+  });
+
+  it('ok: thumb-index ring, other fingers out', () => {
+    const pose = hand('right', { middle: OUT, ring: OUT, pinky: OUT });
+    expect(matchHand(ok.pose, tipNearIndex(pose, 'thumb', 0.02), 'right')).toBe(true);
+    expect(matchHand(ok.pose, tipNearIndex(pose, 'thumb', 0.04), 'right')).toBe(false);
+    expect(matchHand(ok.pose, tipNearIndex(hand('right'), 'thumb', 0.02), 'right')).toBe(false);
+  });
+
+  it('a two-hand definition checks each hand and the gap between them', () => {
+    const fists: TwoHandGesture = {
+      name: 'bump',
+      hands: 'both',
+      left: fist.pose,
+      right: fist.pose,
+      between: [{ a: 'middle', b: 'middle', lt: 0.05 }],
+    };
+    const left = hand('left');
+    const right = hand('right');
+    right['middle-finger-tip'] = left['middle-finger-tip']!.clone().add(new THREE.Vector3(0.02, 0, 0));
+    expect(matchBoth(fists, left, right)).toBe(true);
+    expect(matchBoth(fists, left, hand('right', { index: OUT }))).toBe(false);
+    expect(matchBoth({ ...fists, between: [{ a: 'middle', b: 'middle', gt: 0.05 }] }, left, right)).toBe(false);
+  });
+});
+
+describe('palmNormal', () => {
+  it.each<[Side, 'down' | 'up', number]>([
+    ['right', 'down', -1],
+    ['right', 'up', 1],
+    ['left', 'down', -1],
+    ['left', 'up', 1],
+  ])('%s hand, palm %s', (side, palm, y) => {
+    const n = palmNormal(hand(side, {}, palm), side)!;
+    expect(n.y).toBeCloseTo(y);
+    expect(n.length()).toBeCloseTo(1);
+  });
+
+  it('flips with handedness', () => {
+    const pose = hand('right');
+    expect(palmNormal(pose, 'left')!.y).toBeCloseTo(1);
+  });
+
+  it('is null without the knuckles or when they line up', () => {
+    const pose = hand('right');
+    delete pose['pinky-finger-phalanx-proximal'];
+    expect(palmNormal(pose, 'right')).toBeNull();
+    pose['pinky-finger-phalanx-proximal'] = pose['index-finger-phalanx-proximal']!.clone().multiplyScalar(2);
+    expect(palmNormal(pose, 'right')).toBeNull();
+  });
+
+  it('drives palm conditions', () => {
+    const up: HandCondition = { palm: { facing: 'up' } };
+    const down: HandCondition = { palm: { facing: 'down', within: 10 } };
+    expect(matchHand(up, hand('left', {}, 'up'), 'left')).toBe(true);
+    expect(matchHand(up, hand('left', {}, 'down'), 'left')).toBe(false);
+    expect(matchHand(down, hand('right'), 'right')).toBe(true);
+
+    // the head above the hand: a palm facing up faces the viewer
+    const head = new THREE.Vector3(0, 0.4, 0);
+    const viewer: HandCondition = { palm: { facing: 'viewer' } };
+    const away: HandCondition = { palm: { facing: 'away' } };
+    expect(matchHand(viewer, hand('right', {}, 'up'), 'right', head)).toBe(true);
+    expect(matchHand(away, hand('right', {}, 'up'), 'right', head)).toBe(false);
+    expect(matchHand(away, hand('right'), 'right', head)).toBe(true);
+    expect(matchHand(viewer, hand('right', {}, 'up'), 'right')).toBe(false);
+  });
+});
@@ -0,0 +1,177 @@
+// src/gestures/GestureDefs.ts
+// Declarative hand gestures. A definition says which fingers are extended or
+// curled, which tips are close or apart, where the palm faces and, for
+// two-hand gestures, how the hands relate; HandEngine evaluates every
+// registered definition each frame. Matching is pure (joint positions in,
+// boolean out), so poses can be checked without a headset.
+import * as THREE from 'three';
+
+export const XR_HAND_JOINTS = [
+  'wrist',
+  'thumb-metacarpal','thumb-phalanx-proximal','thumb-phalanx-distal','thumb-tip',
+  'index-finger-metacarpal','index-finger-phalanx-proximal','index-finger-phalanx-intermediate','index-finger-phalanx-distal','index-finger-tip',
+  'middle-finger-metacarpal','middle-finger-phalanx-proximal','middle-finger-phalanx-intermediate','middle-finger-phalanx-distal','middle-finger-tip',
+  'ring-finger-metacarpal','ring-finger-phalanx-proximal','ring-finger-phalanx-intermediate','ring-finger-phalanx-distal','ring-finger-tip',
+  'pinky-finger-metacarpal','pinky-finger-phalanx-proximal','pinky-finger-phalanx-intermediate','pinky-finger-phalanx-distal','pinky-finger-tip'
+] as const;
+export type XRHandJointName = typeof XR_HAND_JOINTS[number];
+
+export type Side = 'left' | 'right';
+export type Finger = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+/** Joint positions of one hand (reference space, metres); untracked joints are missing. */
+export type HandPose = Partial<Record<XRHandJointName, THREE.Vector3>>;
+
+/** Tip-to-wrist distance (m) beyond which a finger counts as extended / within which it's curled. */
+export const EXTENDED = 0.085;
+export const CURLED = 0.075;
+/** Palm within this many degrees of the asked direction. */
+const PALM_WITHIN = 45;
+
+/** 'extended' / 'curled' at the default distances, or with a distance of its own. */
+export type FingerState = 'extended' | 'curled' | { extended: number } | { curled: number };
+
+/** Distance between two tips (m): closer than `lt` and / or further than `gt`. */
+export type TipDistance = { a: Finger; b: Finger; lt?: number; gt?: number };
+
+export type PalmFacing = {
+  /** 'viewer' / 'away' are relative to the head. */
+  facing: 'up' | 'down' | 'viewer' | 'away';
+  /** Degrees (default 45). */
+  within?: number;
+};
+
+/** Everything listed must hold; anything not listed is free. */
+export type HandCondition = {
+  fingers?: Partial<Record<Finger, FingerState>>;
+  tips?: TipDistance[];
+  palm?: PalmFacing;
+};
+
+type GestureBase = {
+  name: string;
+  /**
+   * Emit `<name>start` with `{ side }` on every frame the pose holds (listeners
+   * rate-limit), rather than smoothed start / end events.
+   */
+  repeat?: boolean;
+};
+
+/**
+ * Either hand. Events: `<side><name>start` / `<side><name>end` with `{ side }`
+ * (e.g. `leftpinchstart`), or `<name>start` per frame with `repeat`.
+ */
+export type OneHandGesture = GestureBase & { hands: 'one'; pose: HandCondition };
+
+/**
+ * Both hands at once. `between` compares the left hand's `a` tip with the
+ * right hand's `b` tip. Events: `<name>start` / `<name>end`.
+ */
+export type TwoHandGesture = GestureBase & {
+  hands: 'both';
+  left?: HandCondition;
+  right?: HandCondition;
+  between?: TipDistance[];
+};
+
+export type GestureDef = OneHandGesture | TwoHandGesture;
+
+export const TIPS: Record<Finger, XRHandJointName> = {
+  thumb: 'thumb-tip',
+  index: 'index-finger-tip',
+  middle: 'middle-finger-tip',
+  ring: 'ring-finger-tip',
+  pinky: 'pinky-finger-tip',
+};
+
+/** Does one hand hold `cond`? Any joint it needs that isn't tracked fails it. */
+export function matchHand(cond: HandCondition, pose: HandPose, side: Side, head?: THREE.Vector3 | null): boolean {
+  const W = pose.wrist;
+  for (const [finger, want] of Object.entries(cond.fingers ?? {}) as [Finger, FingerState][]) {
+    const tip = pose[TIPS[finger]];
+    if (!W || !tip) return false;
+    const d = tip.distanceTo(W);
+    if (want === 'extended' ? d <= EXTENDED
+      : want === 'curled' ? d >= CURLED
+      : 'extended' in want ? d <= want.extended
+      : d >= want.curled) return false;
+  }
+  for (const t of cond.tips ?? []) {
+    if (!withinRange(pose[TIPS[t.a]], pose[TIPS[t.b]], t)) return false;
+  }
+  if (cond.palm) {
+    const n = palmNormal(pose, side);
+    if (!n || !W) return false;
+    let dir: THREE.Vector3;
+    switch (cond.palm.facing) {
+      case 'up': dir = new THREE.Vector3(0, 1, 0); break;
+      case 'down': dir = new THREE.Vector3(0, -1, 0); break;
+      default:
+        if (!head) return false;
+        dir = head.clone().sub(W).normalize();
+        if (cond.palm.facing === 'away') dir.negate();
+    }
+    if (n.dot(dir) < Math.cos(THREE.MathUtils.degToRad(cond.palm.within ?? PALM_WITHIN))) return false;
+  }
+  return true;
+}
+
+/** Two-hand gestures: both conditions plus the relations between the hands. */
+export function matchBoth(def: TwoHandGesture, left: HandPose, right: HandPose, head?: THREE.Vector3 | null): boolean {
+  if (def.left && !matchHand(def.left, left, 'left', head)) return false;
+  if (def.right && !matchHand(def.right, right, 'right', head)) return false;
+  return (def.between ?? []).every((t) => withinRange(left[TIPS[t.a]], right[TIPS[t.b]], t));
+}
+
+/**
+ * Unit vector out of the palm, from the wrist and the index / pinky knuckles
+ * (the cross product flips with handedness).
+ */
+export function palmNormal(pose: HandPose, side: Side): THREE.Vector3 | null {
+  const W = pose.wrist;
+  const I = pose['index-finger-phalanx-proximal'];
+  const P = pose['pinky-finger-phalanx-proximal'];
+  if (!W || !I || !P) return null;
+  const n = new THREE.Vector3().crossVectors(I.clone().sub(W), P.clone().sub(W));
+  if (side === 'left') n.negate();
+  return n.lengthSq() > 0 ? n.normalize() : null;
+}
+
+function withinRange(a: THREE.Vector3 | undefined, b: THREE.Vector3 | undefined, t: TipDistance) {
+  if (!a || !b) return false;
+  const d = a.distanceTo(b);
+  return (t.lt === undefined || d < t.lt) && (t.gt === undefined || d > t.gt);
+}
+
+/** What the app listens for (see FeedControls). */
+export const BUILTIN_GESTURES: GestureDef[] = [
+  { name: 'pinch', hands: 'one', pose: { tips: [{ a: 'thumb', b: 'index', lt: 0.035 }] } },
+  // two hands making a heart: index tips and thumb tips touching
+  {
+    name: 'heart',
+    hands: 'both',
+    between: [
+      { a: 'index', b: 'index', lt: 0.045 },
+      { a: 'thumb', b: 'thumb', lt: 0.045 },
+    ],
+  },
+  {
+    name: 'thumbsup',
+    hands: 'one',
+    repeat: true,
+    pose: { fingers: { thumb: 'extended', index: 'curled', middle: 'curled', ring: 'curled', pinky: 'curled' } },
+  },
+  // 🤟 thumb + index + pinky out, middle & ring curled
+  {
+    name: 'ily',
+    hands: 'one',
+    repeat: true,
+    pose: { fingers: { thumb: { extended: 0.080 }, index: 'extended', pinky: 'extended', middle: 'curled', ring: 'curled' } },
+  },
+  // ✌️ index + middle out, ring + pinky curled, thumb free
+  {
+    name: 'peace',
+    hands: 'one',
+    repeat: true,
+    pose: { fingers: { index: 'extended', middle: 'extended', ring: 'curled', pinky: 'curled' } },
+  },
+];
@@ -1,40 +1,61 @@
 // src/gestures/HandEngine.ts
 import * as THREE from 'three';
 import type { XRFrameInfo } from '../app/ThreeXRApp';
+import {
+  BUILTIN_GESTURES, GestureDef, HandPose, Side, XR_HAND_JOINTS, matchBoth, matchHand,
+} from './GestureDefs';
 
-type Side = 'left'|'right';
 type Listener = (detail?: any) => void;
+/** Raw (unsmoothed) per-frame result of each gesture. */
+type GestureFlags = Record<string, boolean>;
 
-const XR_HAND_JOINTS = [
-  'wrist',
-  'thumb-metacarpal','thumb-phalanx-proximal','thumb-phalanx-distal','thumb-tip',
-  'index-finger-metacarpal','index-finger-phalanx-proximal','index-finger-phalanx-intermediate','index-finger-phalanx-distal','index-finger-tip',
-  'middle-finger-metacarpal','middle-finger-phalanx-proximal','middle-finger-phalanx-intermediate','middle-finger-phalanx-distal','middle-finger-tip',
-  'ring-finger-metacarpal','ring-finger-phalanx-proximal','ring-finger-phalanx-intermediate','ring-finger-phalanx-distal','ring-finger-tip',
-  'pinky-finger-metacarpal','pinky-finger-phalanx-proximal','pinky-finger-phalanx-intermediate','pinky-finger-phalanx-distal','pinky-finger-tip'
-] as const;
-type XRHandJointName = typeof XR_HAND_JOINTS[number];
-
+/**
+ * Tracks hand joints and evaluates the registered gestures (GestureDefs) each
+ * frame. The built-ins are registered up front; add more with register().
+ */
 export class HandEngine {
-  constructor(public renderer: THREE.WebGLRenderer) {}
+  constructor(public renderer: THREE.WebGLRenderer) {
+    BUILTIN_GESTURES.forEach((g) => this.register(g));
+  }
 
   private settleMs = 100;
   private smoothFrames = 4;
   private history: Record<string, boolean[]> = {};
   private lastMap = new Map<string,{val:boolean; changeAt:number}>();
 
+  /** One-hand gestures per side; two-hand ones under `both`. */
   public state = {
-    left:  { pinch:false },
-    right: { pinch:false },
-    heart:false
+    left:  { pinch:false } as GestureFlags & { pinch: boolean },
+    right: { pinch:false } as GestureFlags & { pinch: boolean },
+    both:  {} as GestureFlags,
+    /** Where the heart flag has always been read; same as `both.heart`. */
+    get heart(): boolean { return this.both.heart ?? false; },
   };
 
-  private lastPos: Record<'left'|'right', Partial<Record<XRHandJointName, THREE.Vector3>>> = { left:{}, right:{} };
+  private gestures = new Map<string, GestureDef>();
+  private lastPos: Record<Side, HandPose> = { left:{}, right:{} };
+  private head: THREE.Vector3 | null = null;
 
   private listeners: Record<string, Listener[]> = {};
   on(ev: string, fn: Listener){ (this.listeners[ev] ??= []).push(fn); }
   private emit(ev: string, detail?: any){ (this.listeners[ev]||[]).forEach(f=>f(detail)); }
 
+  /** Add (or replace) a gesture; it's evaluated from the next frame. */
+  register(def: GestureDef) {
+    this.gestures.set(def.name, def);
+  }
+  unregister(name: string) {
+    this.gestures.delete(name);
+    delete this.state.left[name];
+    delete this.state.right[name];
+    delete this.state.both[name];
+    for (const key of [name, `left.${name}`, `right.${name}`]) {
+      delete this.history[key];
+      this.lastMap.delete(key);
+    }
+  }
+  gestureNames() { return [...this.gestures.keys()]; }
+
   private smooth(key:string, v:boolean){
     const buf=this.history[key]??(this.history[key]=[]);
     buf.push(v); if(buf.length>this.smoothFrames) buf.shift();
@@ -77,61 +98,28 @@ export class HandEngine {
       }
     }
 
-    const J = (side:Side, name:XRHandJointName) => this.lastPos[side]?.[name] ?? null;
-    const dist = (a:THREE.Vector3|null, b:THREE.Vector3|null) => (a&&b)? a.distanceTo(b) : 1e9;
+    const viewer = info.frame.getViewerPose(info.refSpace);
+    const hp = viewer?.transform.position;
+    this.head = hp ? (this.head ?? new THREE.Vector3()).set(hp.x, hp.y, hp.z) : null;
 
-    // pinch
-    const leftPinch  = dist(J('left','thumb-tip'),  J('left','index-finger-tip'))  < 0.035;
-    const rightPinch = dist(J('right','thumb-tip'), J('right','index-finger-tip')) < 0.035;
-    this.state.left.pinch  = leftPinch;  this.updateFlag('left.pinch', leftPinch, {side:'left'});
-    this.state.right.pinch = rightPinch; this.updateFlag('right.pinch', rightPinch, {side:'right'});
-
-    // heart (two-hands close)
-    const L_i = J('left','index-finger-tip'),  R_i = J('right','index-finger-tip');
-    const L_t = J('left','thumb-tip'),        R_t = J('right','thumb-tip');
-    const heartNow = dist(L_i, R_i) < 0.045 && dist(L_t, R_t) < 0.045;
-    this.state.heart = heartNow; this.updateFlag('heart', heartNow);
-
-    // thumbs up (like)
-    const thumbUp = (side:Side) => {
-      const W = J(side,'wrist'), T = J(side,'thumb-tip');
-      if (!W || !T) return false;
-      const thumbExtended = T.distanceTo(W) > 0.085;
-      const curled = ['index-finger-tip','middle-finger-tip','ring-finger-tip','pinky-finger-tip']
-        .every(n => { const P=J(side, n as XRHandJointName); return P && P.distanceTo(W) < 0.075; });
-      return thumbExtended && curled;
-    };
-    if (thumbUp('left'))  this.emit('thumbsupstart',{side:'left'});
-    if (thumbUp('right')) this.emit('thumbsupstart',{side:'right'});
-
-    // ILY / 🤟 (thumb + index + pinky extended; middle & ring curled)
-    const ily = (side:Side) => {
-      const W = J(side,'wrist');
-      const IT = J(side,'index-finger-tip');
-      const PT = J(side,'pinky-finger-tip');
-      const TT = J(side,'thumb-tip');
-      const MT = J(side,'middle-finger-tip');
-      const RT = J(side,'ring-finger-tip');
-      if (!(W && IT && PT && TT && MT && RT)) return false;
-      const ext = (p:THREE.Vector3|null, thr:number)=> p ? p.distanceTo(W!) > thr : false;
-      const cur = (p:THREE.Vector3|null, thr:number)=> p ? p.distanceTo(W!) < thr : false;
-      return ext(IT,0.085) && ext(PT,0.085) && ext(TT,0.080) && cur(MT,0.075) && cur(RT,0.075);
-    };
-    if (ily('left'))  this.emit('ilystart', {side:'left'});
-    if (ily('right')) this.emit('ilystart', {side:'right'});
+    for (const def of this.gestures.values()) this.evaluate(def);
+  }
 
-    // PEACE ✌️ (index + middle extended; ring + pinky curled; thumb relaxed)
-    const peace = (side:Side) => {
-      const W = J(side,'wrist');
-      const IT = J(side,'index-finger-tip'), MT = J(side,'middle-finger-tip');
-      const RT = J(side,'ring-finger-tip'),  PT = J(side,'pinky-finger-tip');
-      if (!(W && IT && MT && RT && PT)) return false;
-      const ext = (p:THREE.Vector3|null, thr:number)=> p ? p.distanceTo(W!) > thr : false;
-      const cur = (p:THREE.Vector3|null, thr:number)=> p ? p.distanceTo(W!) < thr : false;
-      return ext(IT,0.085) && ext(MT,0.085) && cur(RT,0.075) && cur(PT,0.075);
-    };
-    if (peace('left'))  this.emit('peacestart',{side:'left'});
-    if (peace('right')) this.emit('peacestart',{side:'right'});
+  private evaluate(def: GestureDef) {
+    const { name } = def;
+    if (def.hands === 'both') {
+      const on = matchBoth(def, this.lastPos.left, this.lastPos.right, this.head);
+      this.state.both[name] = on;
+      if (def.repeat) { if (on) this.emit(`${name}start`); }
+      else this.updateFlag(name, on);
+      return;
+    }
+    for (const side of ['left', 'right'] as const) {
+      const on = matchHand(def.pose, this.lastPos[side], side, this.head);
+      this.state[side][name] = on;
+      if (def.repeat) { if (on) this.emit(`${name}start`, {side}); }
+      else this.updateFlag(`${side}.${name}`, on, {side});
+    }
   }
 
   // helpers
@@ -0,0 +1,71 @@
+// src/integrations/commentBridge.ts
+// Same-origin channel from public/compose.html (opened by the ILY gesture) back
+// to the XR tab. compose.html speaks the same protocol in plain JS – keep the
+// two in step.
+
+export const COMMENT_CHANNEL = 'holoreel:comments';
+
+/**
+ * Written in the composer, posted by the XR tab – its ApiClient queues it
+ * while offline, so the composer never talks to the server itself.
+ */
+export type CommentMessage = { type: 'comment'; key: string; id: string; text: string; author: string; parentId?: string };
+/** The XR tab's answer: it has the comment (the composer can close). */
+export type CommentAck = { type: 'ack'; id: string };
+
+const isCommentMessage = (m: any): m is CommentMessage =>
+  m?.type === 'comment' &&
+  typeof m.key === 'string' &&
+  typeof m.id === 'string' &&
+  typeof m.text === 'string' &&
+  typeof m.author === 'string' &&
+  (m.parentId === undefined || typeof m.parentId === 'string');
+
+/**
+ * BroadcastChannel where available; otherwise messages are written to
+ * localStorage under COMMENT_CHANNEL and picked up from the `storage` event
+ * (which only fires in other tabs). Acks go back the same way.
+ */
+export class CommentBridge {
+  private channel?: BroadcastChannel;
+  private onStorage = (e: StorageEvent) => {
+    if (e.key !== COMMENT_CHANNEL || !e.newValue) return;
+    try {
+      this.deliver(JSON.parse(e.newValue));
+    } catch {
+      /* not ours */
+    }
+  };
+  /** A composer retrying (no ack yet) repeats a message; comment ids make the second copy a no-op. */
+  private seen = new Set<string>();
+
+  constructor(private onComment: (msg: CommentMessage) => void) {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(COMMENT_CHANNEL);
+      this.channel.onmessage = (e) => this.deliver(e.data);
+    }
+    addEventListener('storage', this.onStorage);
+  }
+
+  dispose() {
+    this.channel?.close();
+    removeEventListener('storage', this.onStorage);
+  }
+
+  private deliver(msg: unknown) {
+    if (!isCommentMessage(msg)) return;
+    if (!this.seen.has(msg.id)) {
+      this.seen.add(msg.id);
+      this.onComment(msg);
+    }
+    this.send({ type: 'ack', id: msg.id });
+  }
+
+  private send(msg: CommentAck) {
+    if (this.channel) this.channel.postMessage(msg);
+    else {
+      localStorage.setItem(COMMENT_CHANNEL, JSON.stringify(msg));
+      localStorage.removeItem(COMMENT_CHANNEL);
+    }
+  }
+}
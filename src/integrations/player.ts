@@ -1,6 +1,164 @@
+import * as THREE from 'three';
+
+/** Soundtrack for items without their own `audio` (put in public/assets). */
+const DEFAULT_TRACK = '/assets/track.mp3';
+
+/** Distance attenuation for spatial playback (metres). */
+const REF_DISTANCE = 0.6;
+const MAX_DISTANCE = 12;
+const ROLLOFF = 1.2;
+
 export class GlobalPlayer {
-  private audio = new Audio('/assets/track.mp3'); // fallback file (put in public/assets)
+  private audio = new Audio();
+  private track = DEFAULT_TRACK;
+  private userPaused = false;
+  private held = false;
+  private spatial?: THREE.PositionalAudio;
+  /** Content's own media elements routed with attachElement(). */
+  private attached = new Set<THREE.PositionalAudio>();
+  private volume = 1;
+  private muted = false;
+  /** Whether item tracks loop (see setLoop); the default soundtrack always does. */
+  private itemLoop = true;
+
+  constructor() {
+    // CORS-clean or Web Audio (enableSpatial) only gets silence from it
+    this.audio.crossOrigin = 'anonymous';
+    this.audio.src = DEFAULT_TRACK;
+    this.audio.loop = true;
+  }
+
+  /** Seconds into the current track – sequences synced to audio read this. */
+  get time() { return this.audio.currentTime; }
+  get isPlaying() { return !this.audio.paused || this.held; }
+  get isMuted() { return this.muted; }
+  /** A non-looping item track played to its end. */
+  get ended() { return this.audio.ended; }
+
+  /**
+   * Route playback through Web Audio as a PositionalAudio (add it under the
+   * shown content with `anchorTo`). A media element can only be routed once.
+   */
+  enableSpatial(listener: THREE.AudioListener): THREE.PositionalAudio {
+    if (this.spatial) return this.spatial;
+    this.spatial = positional(listener, this.audio, 'item-audio');
+    this.applyVolume();
+    return this.spatial;
+  }
+
+  /**
+   * Make a content's own media element (a video's sound) come from `anchor`
+   * too, at the player's volume. Returns the release for the content's
+   * dispose; undefined before enableSpatial (it then plays unrouted).
+   */
+  attachElement(el: HTMLMediaElement, anchor: THREE.Object3D): (() => void) | undefined {
+    if (!this.spatial) return undefined;
+    const node = positional(this.spatial.listener, el, 'content-audio');
+    anchor.add(node);
+    this.attached.add(node);
+    this.applyVolume();
+    return () => {
+      this.attached.delete(node);
+      node.parent?.remove(node);
+      node.disconnect();
+    };
+  }
+
+  /** Make the sound come from `obj` (follows it as it's moved / dragged). */
+  anchorTo(obj: THREE.Object3D) {
+    if (this.spatial && this.spatial.parent !== obj) obj.add(this.spatial);
+  }
+
+  /** 0..1 */
+  setVolume(v: number) {
+    this.volume = THREE.MathUtils.clamp(v, 0, 1);
+    this.applyVolume();
+  }
+  setMuted(on: boolean) {
+    this.muted = on;
+    this.applyVolume();
+  }
+
+  /** Resolves false when the browser refused (no user gesture yet). */
+  play(): Promise<boolean> {
+    this.userPaused = false;
+    return this.start();
+  }
+  pause(){ this.userPaused = true; this.held = false; this.audio.pause(); }
+
+  /**
+   * Switch to an item's track (restarts it, plays unless the user paused) or,
+   * with null, back to the default soundtrack (carries on as it was).
+   */
+  setTrack(url: string | null): Promise<boolean> {
+    const src = url ?? DEFAULT_TRACK;
+    const wasPlaying = this.isPlaying;
+    const wasHeld = this.held;
+    this.held = false;
+    this.audio.loop = url ? this.itemLoop : true;
+    if (src !== this.track) {
+      this.track = src;
+      this.audio.src = src;
+    } else if (!url) {
+      // carries on – and picks up again if it was held (e.g. for a video's own sound)
+      return wasHeld ? this.start() : Promise.resolve(wasPlaying);
+    }
+    this.audio.currentTime = 0;
+    const shouldPlay = url ? !this.userPaused : wasPlaying;
+    if (!shouldPlay) {
+      this.audio.pause();
+      return Promise.resolve(false);
+    }
+    return this.start();
+  }
+
+  /** Loop item tracks (default) or let them end, e.g. for a sequence that plays once. */
+  setLoop(on: boolean) {
+    this.itemLoop = on;
+    if (this.track !== DEFAULT_TRACK) this.audio.loop = on;
+  }
+
+  seek(seconds: number) { this.audio.currentTime = Math.max(0, seconds); }
+  /** Also the default rate, since switching tracks resets playbackRate to it. */
+  setRate(rate: number) {
+    this.audio.defaultPlaybackRate = rate;
+    this.audio.playbackRate = rate;
+  }
+
+  /** Pause while synced content buffers, without counting as a user pause. */
+  hold(on: boolean) {
+    if (on && !this.audio.paused) {
+      this.held = true;
+      this.audio.pause();
+    } else if (!on && this.held) {
+      this.held = false;
+      this.start();
+    }
+  }
+
+  private applyVolume() {
+    const v = this.muted ? 0 : this.volume;
+    // once routed through Web Audio the gain node is the volume that counts
+    if (this.spatial) this.spatial.setVolume(v);
+    else this.audio.volume = v;
+    for (const node of this.attached) node.setVolume(v);
+  }
+
+  private start(): Promise<boolean> {
+    // contexts start suspended until a user gesture
+    if (this.spatial?.context.state === 'suspended') this.spatial.context.resume().catch(() => {});
+    return this.audio.play().then(() => true, () => false /* user gesture may be required until XR starts */);
+  }
+}
 
-  play(){ this.audio.play().catch(()=>{/* user gesture may be required until XR starts */}); }
-  pause(){ this.audio.pause(); }
+/** PositionalAudio playing `el`, with the player's distance falloff. An element can only be routed once. */
+function positional(listener: THREE.AudioListener, el: HTMLMediaElement, name: string) {
+  const node = new THREE.PositionalAudio(listener);
+  node.name = name;
+  node.setMediaElementSource(el);
+  node.setDistanceModel('inverse');
+  node.setRefDistance(REF_DISTANCE);
+  node.setMaxDistance(MAX_DISTANCE);
+  node.setRolloffFactor(ROLLOFF);
+  return node;
 }
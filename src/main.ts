@@ -2,17 +2,30 @@ import { ThreeXRApp } from './app/ThreeXRApp';
 import { HandEngine } from './gestures/HandEngine';
 import { FeedControls } from './controls/FeedControls';
 import { FeedStore } from './feed/FeedStore';
+import { initModelDecoders } from './feed/loaders/GLTFModel';
 import { Hud } from './ui/Hud';
 import { GlobalPlayer } from './integrations/player';
 import * as THREE from 'three';
 
 const app = new ThreeXRApp();
 const hands = new HandEngine(app.renderer);
+initModelDecoders(app.renderer);
 const hud = new Hud();
-const store = new FeedStore(app.contentRoot, (t)=>hud.toast(t));
 const player = new GlobalPlayer();
+// item audio is positional: it comes from the shown model, heard from the camera
+const listener = new THREE.AudioListener();
+app.camera.add(listener);
+player.enableSpatial(listener);
+const store = new FeedStore(app.contentRoot, (t)=>hud.toast(t), { player });
 
 hud.mountPlayer(()=> player.play(), ()=> player.pause());
+hud.mountVolume((v) => player.setVolume(v), (m) => player.setMuted(m));
+hud.mountPlayback({
+  toggle: () => store.togglePlayback(),
+  seek: (p) => store.seek(p),
+  setSpeed: (s) => store.setPlaybackSpeed(s),
+  setLoop: (m) => store.setLoopMode(m),
+});
 
 (async () => {
   await store.loadFeed();
@@ -20,6 +33,9 @@ hud.mountPlayer(()=> player.play(), ()=> player.pause());
 
   // Keep joints flowing
   app.onFrame((info) => { hands.update(info); });
+  app.onFrame(() => hud.updatePlayback(store.getPlayback()));
+  app.onPause(() => store.suspend());
+  app.onResume(() => store.resume());
 
   // When XR session starts, place the current item in front of the user:
   // ~1.0 m forward in view direction, Y = 0.5m above floor (local-floor → ground at y=0)
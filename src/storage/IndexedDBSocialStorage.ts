@@ -0,0 +1,51 @@
+// src/storage/IndexedDBSocialStorage.ts
+import { ItemSocial, SocialStorage, sanitizeSocial } from './SocialStorage';
+import { LocalStorageSocialStorage } from './LocalStorageSocialStorage';
+
+const DB_VERSION = 1;
+const STORE = 'items';
+
+const done = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+/**
+ * One record per item in an object store. Falls back to localStorage where
+ * the database can't be opened (private browsing in some browsers).
+ */
+export class IndexedDBSocialStorage implements SocialStorage {
+  private db: Promise<IDBDatabase | null>;
+  private fallback?: SocialStorage;
+
+  constructor(name = 'mvp-social') {
+    this.db = this.open(name).catch((e) => {
+      console.warn('IndexedDB unavailable, storing reactions in localStorage:', e);
+      this.fallback = new LocalStorageSocialStorage();
+      return null;
+    });
+  }
+
+  async load(key: string): Promise<ItemSocial | null> {
+    const db = await this.db;
+    if (!db) return this.fallback!.load(key);
+    const raw = await done(db.transaction(STORE, 'readonly').objectStore(STORE).get(key));
+    return raw === undefined ? null : sanitizeSocial(raw);
+  }
+
+  async save(key: string, data: ItemSocial): Promise<void> {
+    const db = await this.db;
+    if (!db) return this.fallback!.save(key, data);
+    await done(db.transaction(STORE, 'readwrite').objectStore(STORE).put(data, key));
+  }
+
+  private open(name: string): Promise<IDBDatabase> {
+    if (typeof indexedDB === 'undefined') return Promise.reject(new Error('no indexedDB'));
+    const req = indexedDB.open(name, DB_VERSION);
+    req.onupgradeneeded = () => {
+      if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE);
+    };
+    return done(req);
+  }
+}
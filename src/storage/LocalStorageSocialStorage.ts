@@ -0,0 +1,21 @@
+// src/storage/LocalStorageSocialStorage.ts
+import { ItemSocial, SocialStorage, sanitizeSocial } from './SocialStorage';
+
+/** One localStorage entry per item. Small quota (~5 MB), but available everywhere. */
+export class LocalStorageSocialStorage implements SocialStorage {
+  constructor(private prefix = 'mvp.social.') {}
+
+  async load(key: string): Promise<ItemSocial | null> {
+    const json = localStorage.getItem(this.prefix + key);
+    if (json == null) return null;
+    try {
+      return sanitizeSocial(JSON.parse(json));
+    } catch {
+      return null;
+    }
+  }
+
+  async save(key: string, data: ItemSocial): Promise<void> {
+    localStorage.setItem(this.prefix + key, JSON.stringify(data));
+  }
+}
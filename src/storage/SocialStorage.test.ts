@@ -0,0 +1,108 @@
+import * as THREE from 'three';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { memoryStorage } from '../../mock/memoryStorage';
+import type { ApiClient } from '../api/ApiClient';
+import { ReactionHudManager } from '../ui/ReactionHudManager';
+import { LocalStorageSocialStorage } from './LocalStorageSocialStorage';
+import { IndexedDBSocialStorage } from './IndexedDBSocialStorage';
+import { ItemSocial, emptySocial, sanitizeSocial } from './SocialStorage';
+
+// the manager's panel draws to a canvas; these tests only look at what's stored
+vi.mock('../ui/ReactionHud', () => ({
+  ReactionHud: class {
+    setOnComposeSubmit() {}
+    setOnNeedMore() {}
+    setCounts() {}
+    setActive() {}
+    setComments() {}
+    appendComment() {}
+    flash() {}
+  },
+}));
+
+const item = (): ItemSocial => ({
+  counts: { like: 3, heart: 1, repost: 0 },
+  mine: ['like', 'heart'],
+  comments: [
+    { id: 'c1', author: 'Ann', text: 'first', createdAt: 1 },
+    { id: 'c2', author: 'Bo', text: 'reply', createdAt: 2, parentId: 'c1' },
+  ],
+});
+
+beforeEach(() => vi.stubGlobal('localStorage', memoryStorage()));
+afterEach(() => vi.unstubAllGlobals());
+
+describe('LocalStorageSocialStorage', () => {
+  it('round-trips counts, mine and comments', async () => {
+    const store = new LocalStorageSocialStorage();
+    await store.save('k', item());
+    expect(await store.load('k')).toEqual(item());
+    // a new instance (a reload) reads the same
+    expect(await new LocalStorageSocialStorage().load('k')).toEqual(item());
+  });
+
+  it('keeps items apart and returns null for one never saved', async () => {
+    const store = new LocalStorageSocialStorage();
+    await store.save('a', item());
+    await store.save('b', emptySocial());
+    expect(await store.load('b')).toEqual(emptySocial());
+    expect(await store.load('c')).toBeNull();
+  });
+
+  it('saving again replaces the item', async () => {
+    const store = new LocalStorageSocialStorage();
+    await store.save('k', item());
+    await store.save('k', { ...item(), mine: [] });
+    expect((await store.load('k'))?.mine).toEqual([]);
+  });
+
+  it('returns null for an entry that is not JSON', async () => {
+    localStorage.setItem('mvp.social.k', '{oops');
+    expect(await new LocalStorageSocialStorage().load('k')).toBeNull();
+  });
+
+  it('changes made before the stored state loads land on top of it', async () => {
+    const store = new LocalStorageSocialStorage();
+    await store.save('k', item());
+    // the server never answers: only the local, stored side is under test
+    const api = { setOnReconcile() {}, react: () => new Promise(() => {}), comment: () => new Promise(() => {}) };
+    const mgr = new ReactionHudManager(new THREE.Scene(), new THREE.PerspectiveCamera(), () => null, store, api as unknown as ApiClient);
+
+    // ReactionHudManager.update() waits for the load before changing and saving
+    mgr.showFor('k');
+    mgr.addComment('k', 'third', 'Cy', undefined, 'c3');
+    await mgr.toggle('k', 'repost');
+    await new Promise((r) => setTimeout(r, 0));
+
+    const saved = await new LocalStorageSocialStorage().load('k');
+    expect(saved?.comments.map((c) => c.id)).toEqual(['c1', 'c2', 'c3']);
+    expect(saved?.mine).toEqual(['like', 'heart', 'repost']);
+    expect(saved?.counts).toEqual({ like: 3, heart: 1, repost: 1 });
+  });
+});
+
+describe('IndexedDBSocialStorage', () => {
+  it('falls back to localStorage where there is no IndexedDB', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = new IndexedDBSocialStorage();
+    await store.save('k', item());
+    expect(await store.load('k')).toEqual(item());
+    expect(await new LocalStorageSocialStorage().load('k')).toEqual(item());
+  });
+});
+
+describe('sanitizeSocial', () => {
+  it('keeps what fits and drops the rest', () => {
+    expect(sanitizeSocial({
+      counts: { like: 2.7, heart: -1, repost: 'x' },
+      mine: ['like', 'wow'],
+      comments: [{ id: 'c1', text: 'ok', createdAt: 'yesterday' }, { id: 2, text: 'bad id' }, null],
+      extra: true,
+    })).toEqual({ counts: { like: 2, heart: 0, repost: 0 }, mine: ['like'], comments: [{ id: 'c1', text: 'ok' }] });
+  });
+
+  it('is null for anything but an object', () => {
+    expect(sanitizeSocial(null)).toBeNull();
+    expect(sanitizeSocial('[]')).toBeNull();
+  });
+});
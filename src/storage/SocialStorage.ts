@@ -0,0 +1,47 @@
+// src/storage/SocialStorage.ts
+import type { Comment, ReactionKind } from '../ui/ReactionHud';
+
+export type ReactionCounts = { like: number; heart: number; repost: number };
+
+/** Everything kept per feed item (keyed by FeedStore.getCurrentKey()). */
+export type ItemSocial = {
+  counts: ReactionCounts;
+  /** Reactions this user has made on the item. */
+  mine: ReactionKind[];
+  comments: Comment[];
+};
+
+/** Where reactions and comments survive reloads. */
+export interface SocialStorage {
+  /** Null when nothing was stored for `key`. */
+  load(key: string): Promise<ItemSocial | null>;
+  save(key: string, data: ItemSocial): Promise<void>;
+}
+
+export const emptySocial = (): ItemSocial => ({ counts: { like: 0, heart: 0, repost: 0 }, mine: [], comments: [] });
+
+const KINDS: readonly ReactionKind[] = ['like', 'heart', 'repost'];
+const count = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) && v > 0 ? Math.floor(v) : 0);
+
+/** Storage outlives code versions: keep what still fits ItemSocial, drop the rest. */
+export function sanitizeSocial(raw: unknown): ItemSocial | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, any>;
+  const out = emptySocial();
+  if (r.counts && typeof r.counts === 'object') {
+    for (const k of KINDS) out.counts[k] = count(r.counts[k]);
+  }
+  if (Array.isArray(r.mine)) out.mine = KINDS.filter((k) => r.mine.includes(k));
+  if (Array.isArray(r.comments)) {
+    out.comments = r.comments
+      .filter((c: any) => c && typeof c.id === 'string' && typeof c.text === 'string')
+      .map((c: any): Comment => {
+        const cm: Comment = { id: c.id, text: c.text };
+        if (typeof c.author === 'string') cm.author = c.author;
+        if (typeof c.createdAt === 'number') cm.createdAt = c.createdAt;
+        if (typeof c.parentId === 'string') cm.parentId = c.parentId;
+        return cm;
+      });
+  }
+  return out;
+}
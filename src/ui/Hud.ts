@@ -1,7 +1,25 @@
+import type { PlaybackState } from '../feed/FeedStore';
+import type { LoopMode } from '../feed/loaders/SplatSequence';
+
+export type PlaybackHandlers = {
+  toggle: () => void;
+  seek: (progress: number) => void;
+  setSpeed: (speed: number) => void;
+  setLoop: (mode: LoopMode) => void;
+};
+
 export class Hud {
   private el: HTMLDivElement;
   private toastEl: HTMLDivElement;
   private playerEl: HTMLDivElement;
+  private playbackEl: HTMLDivElement;
+  private seqToggle: HTMLButtonElement;
+  private seqScrub: HTMLInputElement;
+  private seqSpeed: HTMLSelectElement;
+  private seqLoop: HTMLSelectElement;
+  private seqFrame: HTMLSpanElement;
+  private scrubbing = false;
+  private lastPlaybackKey = '';
   private reactionEl: HTMLDivElement;
   private likeCountEl: HTMLSpanElement;
   private heartCountEl: HTMLSpanElement;
@@ -42,10 +60,46 @@ export class Hud {
     this.playerEl.innerHTML = `
       <button id="mvp-play">▶︎</button>
       <button id="mvp-pause">⏸</button>
-      <span>Global soundtrack</span>
+      <button id="mvp-mute" title="Mute">🔊</button>
+      <input id="mvp-volume" type="range" min="0" max="1" step="0.05" value="1" style="width:80px;vertical-align:middle">
+      <span>Soundtrack</span>
     `;
     this.el.appendChild(this.playerEl);
 
+    // ===== Sequence playback (splat4d only) =====
+    this.playbackEl = document.createElement('div');
+    this.playbackEl.style.background = 'rgba(0,0,0,.45)';
+    this.playbackEl.style.color = '#fff';
+    this.playbackEl.style.padding = '6px 10px';
+    this.playbackEl.style.borderRadius = '8px';
+    this.playbackEl.style.display = 'none';
+    this.playbackEl.style.alignItems = 'center';
+    this.playbackEl.style.gap = '6px';
+    this.playbackEl.innerHTML = `
+      <button data-seq="toggle">⏸</button>
+      <input data-seq="scrub" type="range" min="0" max="1" step="0.001" value="0" style="width:160px">
+      <span data-seq="frame" style="font-variant-numeric:tabular-nums"></span>
+      <select data-seq="speed">
+        <option value="0.25">0.25×</option>
+        <option value="0.5">0.5×</option>
+        <option value="1" selected>1×</option>
+        <option value="1.5">1.5×</option>
+        <option value="2">2×</option>
+      </select>
+      <select data-seq="loop">
+        <option value="loop">Loop</option>
+        <option value="pingpong">Ping-pong</option>
+        <option value="once">Once</option>
+      </select>
+    `;
+    const q = <T extends Element>(k: string) => this.playbackEl.querySelector(`[data-seq="${k}"]`) as T;
+    this.seqToggle = q<HTMLButtonElement>('toggle');
+    this.seqScrub = q<HTMLInputElement>('scrub');
+    this.seqFrame = q<HTMLSpanElement>('frame');
+    this.seqSpeed = q<HTMLSelectElement>('speed');
+    this.seqLoop = q<HTMLSelectElement>('loop');
+    this.el.appendChild(this.playbackEl);
+
     // ===== Reaction HUD =====
     this.reactionEl = document.createElement('div');
     this.reactionEl.style.position = 'absolute';
@@ -114,6 +168,54 @@ export class Hud {
     (document.getElementById('mvp-pause') as HTMLButtonElement).onclick = onPause;
   }
 
+  mountVolume(onVolume: (v: number) => void, onMute: (muted: boolean) => void) {
+    const mute = document.getElementById('mvp-mute') as HTMLButtonElement;
+    const vol = document.getElementById('mvp-volume') as HTMLInputElement;
+    let muted = false;
+    mute.onclick = () => {
+      muted = !muted;
+      mute.textContent = muted ? '🔇' : '🔊';
+      onMute(muted);
+    };
+    vol.oninput = () => onVolume(Number(vol.value));
+  }
+
+  // === Sequence playback ===
+  mountPlayback(h: PlaybackHandlers) {
+    this.seqToggle.onclick = () => h.toggle();
+    // don't let updatePlayback() fight the thumb while it's dragged
+    // the drag can end outside the slider or be cancelled: keep its pointer and stop on any ending
+    const endScrub = () => (this.scrubbing = false);
+    this.seqScrub.onpointerdown = (e) => {
+      this.scrubbing = true;
+      this.seqScrub.setPointerCapture(e.pointerId);
+    };
+    this.seqScrub.onpointerup = endScrub;
+    this.seqScrub.onpointercancel = endScrub;
+    this.seqScrub.onlostpointercapture = endScrub;
+    this.seqScrub.onchange = endScrub;
+    this.seqScrub.oninput = () => h.seek(Number(this.seqScrub.value));
+    this.seqSpeed.onchange = () => h.setSpeed(Number(this.seqSpeed.value));
+    this.seqLoop.onchange = () => h.setLoop(this.seqLoop.value as LoopMode);
+  }
+
+  /** Call per frame; hidden when `state` is null (shown item isn't a sequence). */
+  updatePlayback(state: PlaybackState | null) {
+    const key = state
+      ? `${state.playing}|${state.buffering}|${state.frame}|${state.frameCount}|${state.speed}|${state.loop}`
+      : '';
+    if (key === this.lastPlaybackKey) return;
+    this.lastPlaybackKey = key;
+
+    this.playbackEl.style.display = state ? 'flex' : 'none';
+    if (!state) return;
+    this.seqToggle.textContent = state.playing ? '⏸' : '▶︎';
+    this.seqFrame.textContent = `${state.buffering ? '⏳ ' : ''}${state.frame + 1}/${state.frameCount}`;
+    if (!this.scrubbing) this.seqScrub.value = String(state.progress);
+    this.seqSpeed.value = String(state.speed);
+    this.seqLoop.value = state.loop;
+  }
+
   // === Reaction HUD ===
   showReaction(kind: 'like' | 'heart') {
     if (kind === 'like') {
@@ -1,39 +1,195 @@
 // src/ui/ReactionHud.ts
 import * as THREE from 'three';
+import { CanvasSurface } from './canvas/CanvasSurface';
+import { Container, Widget, WidgetHit, roundedRect } from './canvas/Widget';
+import { Button, Label, TextInput } from './canvas/widgets';
+import { ListRenderer, ListView } from './canvas/ListView';
+import { FONT, wrapLines } from './canvas/text';
 
 export type ReactionKind = 'like' | 'heart' | 'repost';
-export type Comment = { id: string; author?: string; text: string };
+export type Comment = {
+  id: string;
+  author?: string;
+  text: string;
+  /** ms since epoch */
+  createdAt?: number;
+  /** Top-level comment this replies to (replies to replies attach to the same top-level one). */
+  parentId?: string;
+};
 
 /** Which thing on the HUD was hit. */
 export type HudHit =
-  | { kind: 'like' | 'heart' | 'repost' | 'post' | 'compose' | 'comments'; point?: THREE.Vector3 }
+  | { kind: 'like' | 'heart' | 'repost' | 'post' | 'compose' | 'submit' | 'comments'; point?: THREE.Vector3 }
+  | { kind: 'reply'; commentId: string; point?: THREE.Vector3 }
   | null;
 
-type Hit =
-  | { kind: 'like' | 'heart' | 'repost' | 'post' | 'comments' }
-  | null;
+/** One bubble in the comment list. */
+type ThreadRow = { c: Comment; depth: 0 | 1 };
+
+const TEXT_FONT = `400 22px ${FONT}`;
+const TEXT_LH = 26;
+const REPLY_INDENT = 56;
+const AVATAR = 40;
+/** Relative timestamps are refreshed this often (s). */
+const TIME_REFRESH = 30;
+/** Height assumed for bubbles not measured yet (px). */
+const ROW_ESTIMATE = 110;
+/** Ask for older comments when this close to the end (in viewport heights). */
+const LOAD_MORE_AHEAD = 1;
+/** How quickly the panel turns to face the viewer (1/s). */
+const FACE_RATE = 6;
+
+/** Reaction icon with its count; accent + ring when it's the user's own reaction. */
+class ReactionTile extends Widget {
+  private img?: HTMLImageElement;
+  private count = 0;
+  private active = false;
+
+  constructor(kind: ReactionKind, private emoji: string) {
+    super();
+    this.id = kind;
+  }
+
+  setIcon(img?: HTMLImageElement) {
+    this.img = img;
+    this.invalidate();
+  }
+  setCount(n: number) {
+    if (n === this.count) return;
+    this.count = n;
+    this.invalidate();
+  }
+  setActive(on: boolean) {
+    if (on === this.active) return;
+    this.active = on;
+    this.invalidate();
+  }
+
+  protected draw(ctx: CanvasRenderingContext2D) {
+    const size = this.rect.w;
+    const lit = this.active || this.pressed;
+    roundedRect(ctx, 0, 0, size, size, size * 0.24);
+    ctx.fillStyle = lit ? 'rgba(75,131,255,0.35)' : this.hovered ? 'rgba(255,255,255,0.14)' : 'rgba(255,255,255,0.08)';
+    ctx.fill();
+    if (this.active) {
+      ctx.lineWidth = 4;
+      ctx.strokeStyle = '#4b83ff';
+      ctx.stroke();
+    }
+
+    ctx.save();
+    ctx.globalAlpha = this.active ? 1 : 0.55;
+    const img = this.img;
+    if (img && img.complete && img.naturalWidth > 0) {
+      ctx.drawImage(img, 0, 0, size, size);
+    } else {
+      ctx.fillStyle = '#fff';
+      ctx.font = `900 ${Math.floor(size * 0.78)}px system-ui,emoji`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(this.emoji, size / 2, size / 2 + 8);
+    }
+    ctx.restore();
+
+    ctx.fillStyle = '#fff';
+    ctx.font = `700 32px ${FONT}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'alphabetic';
+    ctx.fillText(String(this.count), size / 2, size + 46);
+  }
+}
+
+/** Comment bubbles: avatar, author · time, wrapped text, and a Reply link on top-level ones. */
+const commentRenderer: ListRenderer<ThreadRow> = {
+  key: (r) => r.c.id,
+  indent: (r) => r.depth * REPLY_INDENT,
+  measure(ctx, r, w) {
+    const textW = w - (12 + AVATAR + 12) - 12;
+    const textH = wrapLines(ctx, r.c.text, TEXT_FONT, textW).length * TEXT_LH;
+    const footer = r.depth ? 0 : 30;
+    return Math.max(AVATAR + 24, 52 + textH + footer);
+  },
+  draw(ctx, r, w, h) {
+    const cmt = r.c;
+    roundedRect(ctx, 0, 0, w, h, 12);
+    ctx.fillStyle = r.depth ? 'rgba(255,255,255,0.06)' : 'rgba(255,255,255,0.10)';
+    ctx.fill();
+
+    // avatar: initials on a colour derived from the name
+    const ax = 12 + AVATAR / 2, ay = 12 + AVATAR / 2;
+    ctx.beginPath();
+    ctx.arc(ax, ay, AVATAR / 2, 0, Math.PI * 2);
+    ctx.fillStyle = avatarColor(cmt.author);
+    ctx.fill();
+    ctx.fillStyle = '#fff';
+    ctx.font = `700 17px ${FONT}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(initials(cmt.author), ax, ay + 1);
+
+    // header: author · time
+    const tx = 12 + AVATAR + 12;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'alphabetic';
+    ctx.font = `700 20px ${FONT}`;
+    ctx.fillStyle = '#fff';
+    const name = cmt.author ?? 'Anonymous';
+    ctx.fillText(name, tx, 32);
+    if (cmt.createdAt) {
+      const nameW = ctx.measureText(name).width;
+      ctx.font = `400 18px ${FONT}`;
+      ctx.fillStyle = 'rgba(255,255,255,0.5)';
+      ctx.fillText(`· ${relativeTime(cmt.createdAt, Date.now())}`, tx + nameW + 8, 32);
+    }
+
+    ctx.fillStyle = '#EDEDED';
+    const lines = wrapLines(ctx, cmt.text, TEXT_FONT, w - tx - 12);
+    lines.forEach((l, i) => ctx.fillText(l, tx, 62 + i * TEXT_LH));
+
+    if (!r.depth) {
+      const reply = replyRect(w, h);
+      ctx.font = `600 18px ${FONT}`;
+      ctx.fillStyle = '#8fb0ff';
+      ctx.textAlign = 'right';
+      ctx.textBaseline = 'middle';
+      ctx.fillText('Reply', reply.x + reply.w, reply.y + reply.h / 2);
+    }
+  },
+  hit(r, x, y, w, h) {
+    if (r.depth) return undefined;
+    const reply = replyRect(w, h);
+    const inside = x >= reply.x && x <= reply.x + reply.w && y >= reply.y && y <= reply.y + reply.h;
+    return inside ? 'reply' : undefined;
+  },
+};
 
 export class ReactionHud {
   private anchor = new THREE.Group();
-  private panel: THREE.Mesh<THREE.PlaneGeometry, THREE.MeshBasicMaterial>;
-  private panelTex: THREE.CanvasTexture;
-  private panelCanvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
+  private surface: CanvasSurface;
 
-  // counters
-  private likeCount = 0;
-  private heartCount = 0;
-  private repostCount = 0;
+  // widgets
+  private header: Label;
+  private tiles: Record<ReactionKind, ReactionTile>;
+  private list: ListView<ThreadRow>;
+  private postBtn: Button;
+  private composeView: Container;
+  private composeInput: TextInput;
+  private replyLabel: Label;
 
   // comments
+  /** Paged-in comments: top-level newest first, replies in the order they came. */
   private comments: Comment[] = [];
-  private scrollY = 0;                 // pixels
-  private readonly SCROLL_STEP = 42;
+  private hasMore = false;
+  private loadingMore = false;
+  private onNeedMore?: () => void;
+  private sinceTimeRedraw = 0;
 
   // compose
   private composing = false;
-  private composeText = '';
-  private onComposeSubmit?: (text: string) => void;
+  /** Comment being replied to while composing. */
+  private replyTo: Comment | null = null;
+  private onComposeSubmit?: (text: string, parentId?: string) => void;
+  private endKeyboard?: () => void;
 
   // particles (chips)
   private particles: Array<{ sprite: THREE.Sprite; vel: THREE.Vector3; ttl: number }> = [];
@@ -46,129 +202,192 @@ export class ReactionHud {
   private readonly CANVAS_W = 1152;
   private readonly CANVAS_H = 640;
 
-  // Position offset (above model). NO head-orbit, NO rotation/scale linkage.
+  // Position offset (above model). Turns about Y to face the viewer; NO scale linkage.
   private readonly OFFSET = new THREE.Vector3(0, 0.22, 0);
-
-  // icons (optional)
-  private heartIcon?: HTMLImageElement;
-  private likeIcon?: HTMLImageElement;
-  private repostIcon?: HTMLImageElement;
-
-  // cached layout rects (canvas pixel coords)
-  private heartRect!: {x:number;y:number;w:number;h:number};
-  private likeRect!: {x:number;y:number;w:number;h:number};
-  private repostRect!: {x:number;y:number;w:number;h:number};
-  private commentsRect!: {x:number;y:number;w:number;h:number};
-  private postBtnRect!: {x:number;y:number;w:number;h:number};
+  private faced = false;
 
   // small thickness to consider Z proximity for hits (meters)
   private readonly HIT_THICKNESS = 0.08;
 
   constructor(
     private scene: THREE.Scene,
-    _camera: THREE.Camera, // not used for rotation – panel doesn't follow head
+    private camera: THREE.Camera, // the viewer the panel turns towards
     private getObjectWorldPos: () => THREE.Vector3 | null
   ) {
-    this.panelCanvas = document.createElement('canvas');
-    this.panelCanvas.width = this.CANVAS_W;
-    this.panelCanvas.height = this.CANVAS_H;
-    const ctx = this.panelCanvas.getContext('2d');
-    if (!ctx) throw new Error('ReactionHud: cannot get 2D context');
-    this.ctx = ctx;
-
-    this.panelTex = new THREE.CanvasTexture(this.panelCanvas);
-    this.panelTex.minFilter = THREE.LinearFilter;
-    this.panelTex.magFilter = THREE.LinearFilter;
-
-    const geo = new THREE.PlaneGeometry(this.PANEL_W, this.PANEL_H);
-    const mat = new THREE.MeshBasicMaterial({
-      map: this.panelTex,
-      transparent: true,
-      opacity: 1.0,             // transparency drawn in canvas
-      depthTest: true,
-      depthWrite: false
-    });
-    this.panel = new THREE.Mesh(geo, mat);
-    this.panel.renderOrder = 9999;
-    this.anchor.add(this.panel);
+    this.surface = new CanvasSurface(this.CANVAS_W, this.CANVAS_H, this.PANEL_W, this.PANEL_H);
+    this.surface.mesh.renderOrder = 9999;
+    this.anchor.add(this.surface.mesh);
     this.scene.add(this.anchor);
 
-    this.redraw();
+    // Card: header and reaction tiles on the left, comments box on the right
+    const root = this.surface.root;
+    root.background = 'rgba(18,18,28,0.82)';
+    root.radius = 32;
+
+    this.header = root.add(new Label('Reactions', { font: `700 34px ${FONT}` }));
+    this.header.setBounds(36, 28, 400, 44);
+
+    const iconSize = 112;
+    const gap = 36 + iconSize;
+    this.tiles = {
+      heart: new ReactionTile('heart', '❤️'),
+      like: new ReactionTile('like', '👍'),
+      repost: new ReactionTile('repost', '🔁'),
+    };
+    (['heart', 'like', 'repost'] as const).forEach((k, i) => {
+      root.add(this.tiles[k]).setBounds(36 + gap * i, 94, iconSize, iconSize + 50);
+    });
+
+    const boxX = 36 + gap * 2 + iconSize + 48;
+    const box = root.add(new Container());
+    box.background = 'rgba(255,255,255,0.06)';
+    box.radius = 20;
+    box.setBounds(boxX, 36, this.CANVAS_W - boxX - 36, this.CANVAS_H - 72);
+    const inner = { x: 16, y: 16, w: box.rect.w - 32, h: box.rect.h - 32 };
+    const btnW = 160, btnH = 44;
+
+    this.list = box.add(new ListView<ThreadRow>('comments', commentRenderer, ROW_ESTIMATE));
+    this.list.setBounds(inner.x, inner.y, inner.w, inner.h - 64); // space for Post
+    this.list.onScroll = () => this.maybeLoadMore();
+
+    this.postBtn = box.add(new Button('post', 'Post'));
+    this.postBtn.setBounds(inner.x + inner.w - btnW, inner.y + inner.h - btnH, btnW, btnH);
+
+    // Compose mode: text field, who's being replied to, Submit
+    this.composeView = box.add(new Container());
+    this.composeView.id = 'compose';
+    this.composeView.setBounds(inner.x, inner.y, inner.w, inner.h);
+    this.composeInput = this.composeView.add(new TextInput('compose', 'Type with your XR keyboard…'));
+    this.composeInput.setBounds(0, 0, inner.w, 56);
+    this.replyLabel = this.composeView.add(
+      new Label('', { font: `400 20px ${FONT}`, color: 'rgba(255,255,255,0.6)', wrap: true, lineHeight: 24 })
+    );
+    this.replyLabel.setBounds(12, 72, inner.w - 24, inner.h - 72 - btnH - 16);
+    this.composeView.add(new Button('submit', 'Submit')).setBounds(inner.w - btnW, inner.h - btnH, btnW, btnH);
+    this.composeView.visible = false;
+
+    this.surface.render();
   }
 
   // ----------------- Public API -----------------
   setIcons(heartUrl?: string, likeUrl?: string, repostUrl?: string) {
-    const load = (url?: string) => {
-      if (!url) return undefined;
+    const load = (tile: ReactionTile, url?: string) => {
+      if (!url) return tile.setIcon(undefined);
       const img = new Image();
       img.crossOrigin = 'anonymous';
       img.src = url;
-      img.onload = () => this.redraw();
-      return img;
+      img.onload = () => tile.invalidate();
+      tile.setIcon(img);
     };
-    this.heartIcon  = load(heartUrl);
-    this.likeIcon   = load(likeUrl);
-    this.repostIcon = load(repostUrl);
+    load(this.tiles.heart, heartUrl);
+    load(this.tiles.like, likeUrl);
+    load(this.tiles.repost, repostUrl);
   }
 
   setCounts(like: number, heart: number, repost: number) {
-    this.likeCount   = Math.max(0, Math.floor(like));
-    this.heartCount  = Math.max(0, Math.floor(heart));
-    this.repostCount = Math.max(0, Math.floor(repost));
-    this.redraw();
+    this.tiles.like.setCount(Math.max(0, Math.floor(like)));
+    this.tiles.heart.setCount(Math.max(0, Math.floor(heart)));
+    this.tiles.repost.setCount(Math.max(0, Math.floor(repost)));
+  }
+
+  setActive(kinds: Iterable<ReactionKind>) {
+    const on = new Set(kinds);
+    for (const k of ['like', 'heart', 'repost'] as const) this.tiles[k].setActive(on.has(k));
   }
 
-  setComments(list: Comment[]) {
+  /** First page (top-level newest first); `hasMore`: older ones can be had via setOnNeedMore. */
+  setComments(list: Comment[], hasMore = false) {
     this.comments = Array.isArray(list) ? list.slice() : [];
-    this.scrollY = 0;
-    this.redraw();
+    this.hasMore = hasMore;
+    this.loadingMore = false;
+    this.list.setItems(threadRows(this.comments));
+    // a page that doesn't fill the panel can't be scrolled to ask for more
+    this.maybeLoadMore();
   }
+  /** Next page of older comments, in answer to onNeedMore. */
+  appendOlder(list: Comment[], hasMore: boolean) {
+    // a reply that arrived live may already be here ahead of its thread
+    const have = new Set(this.comments.map((c) => c.id));
+    this.comments.push(...list.filter((c) => !have.has(c.id)));
+    this.hasMore = hasMore;
+    this.loadingMore = false;
+    this.list.setItems(threadRows(this.comments), true);
+    this.maybeLoadMore();
+  }
+  setOnNeedMore(cb: () => void) { this.onNeedMore = cb; }
+  /** Adds momentum; the list glides in tick(). */
   scrollComments(steps: number) {
-    const maxScroll = Math.max(0, this.contentHeight() - this.commentsViewportH());
-    this.scrollY = THREE.MathUtils.clamp(this.scrollY + steps * this.SCROLL_STEP, 0, maxScroll);
-    this.redraw();
+    this.list.scrollBy(steps);
   }
+  /** New comments go on top; replies under their thread. */
   appendComment(c: Comment) {
-    this.comments.push(c);
-    this.redraw();
+    if (c.parentId) this.comments.push(c);
+    else this.comments.unshift(c);
+    this.list.setItems(threadRows(this.comments), true);
+  }
+  /** The server's copy of a comment shown ahead of it (same place in the list). */
+  replaceComment(id: string, c: Comment) {
+    const i = this.comments.findIndex((x) => x.id === id);
+    if (i < 0) return;
+    this.comments[i] = c;
+    this.list.setItems(threadRows(this.comments), true);
   }
   postQuickComment(text = 'Posted from MR ✍️') {
     this.appendComment({ id: `c-${Date.now()}`, author: 'You', text });
   }
 
-  setOnComposeSubmit(cb: (text: string)=>void) { this.onComposeSubmit = cb; }
-  beginCommentEntry(prefill = '') {
-    this.composing = true;
-    this.composeText = prefill;
-    this.redraw();
+  setOnComposeSubmit(cb: (text: string, parentId?: string)=>void) { this.onComposeSubmit = cb; }
+  /** `replyToId`: answer that comment (see the Reply links on the panel). */
+  beginCommentEntry(prefill = '', replyToId?: string) {
+    this.endKeyboard?.();
+    this.replyTo = (replyToId && this.comments.find((c) => c.id === replyToId)) || null;
+    this.setComposing(true);
+    this.composeInput.setText(prefill);
+
+    // A keyboard (VirtualKeyboard, or the host's) answers holoreel:keyboardOpen,
+    // streams holoreel:keyboardInput and ends with keyboardSubmit / keyboardCancel.
+    const onInput = (e: Event) => {
+      this.composeInput.setText(String((e as CustomEvent).detail ?? ''));
+    };
+    const onSubmit = (e: Event) => {
+      const val = String((e as CustomEvent).detail ?? '').trim();
+      if (val) this.finishCompose(val);
+      else this.cancelCommentEntry();
+    };
+    const onCancel = () => this.cancelCommentEntry();
+    window.addEventListener('holoreel:keyboardInput', onInput);
+    window.addEventListener('holoreel:keyboardSubmit', onSubmit);
+    window.addEventListener('holoreel:keyboardCancel', onCancel);
+    this.endKeyboard = () => {
+      window.removeEventListener('holoreel:keyboardInput', onInput);
+      window.removeEventListener('holoreel:keyboardSubmit', onSubmit);
+      window.removeEventListener('holoreel:keyboardCancel', onCancel);
+      this.endKeyboard = undefined;
+    };
 
-    // HOOK: let host attach a WebXR keyboard.
-    // Implement this to open your MR keyboard and call window.dispatchEvent(new CustomEvent('holoreel:keyboardSubmit',{detail:text}))
-    (window as any).dispatchEvent?.(new CustomEvent('holoreel:keyboardOpen'));
+    // the keyboard calls preventDefault() to say it's handling entry
+    const open = new CustomEvent('holoreel:keyboardOpen', { detail: { text: prefill }, cancelable: true });
+    if (!window.dispatchEvent(open)) return;
 
-    // Minimal fallback so you can test immediately:
-    setTimeout(async () => {
+    // No keyboard in this page: prompt (kept non-blocking to avoid XR issues)
+    setTimeout(() => {
       if (!this.composing) return;
-      // If your runtime injects text via event, we'll capture it below; otherwise prompt:
-      const handler = (e: any) => {
-        if (!this.composing) return;
-        const val = String(e?.detail ?? '').trim();
-        if (!val) return;
-        this.finishCompose(val);
-      };
-      window.addEventListener('holoreel:keyboardSubmit', handler, { once: true });
-
-      // Fallback prompt (kept non-blocking to avoid XR issues)
-      setTimeout(() => {
-        if (!this.composing) return;
-        const v = window.prompt('Type your comment:') ?? '';
-        if (v.trim()) this.finishCompose(v.trim());
-        else this.cancelCommentEntry();
-        window.removeEventListener('holoreel:keyboardSubmit', handler);
-      }, 10);
-    }, 0);
-  }
-  cancelCommentEntry() { this.composing = false; this.composeText = ''; this.redraw(); }
+      const v = window.prompt('Type your comment:', prefill) ?? '';
+      if (v.trim()) this.finishCompose(v.trim());
+      else this.cancelCommentEntry();
+    }, 10);
+  }
+  /** The Submit button: post what's been typed so far (nothing typed: keep composing). */
+  submitCommentEntry() {
+    const text = this.composeInput.value.trim();
+    if (!this.composing || !text) return;
+    this.closeKeyboard();
+    this.finishCompose(text);
+  }
+  cancelCommentEntry() {
+    this.closeKeyboard();
+    this.setComposing(false);
+  }
   isComposing() { return this.composing; }
 
   /** Panel center in world coordinates (for aiming rays) */
@@ -176,37 +395,15 @@ export class ReactionHud {
     return this.anchor.position.clone();
   }
 
-  /** Raycast in world space against the panel. */
+  /**
+   * Raycast against the panel (in its local space, so hits hold from any
+   * side) and highlight what's under the ray. Rays starting further behind
+   * the panel than `thickness` (cm) miss: the back isn't drawn.
+   */
   raycastHit(ray: THREE.Ray, thickness = 10): HudHit {
-    // build plane for panel (facing camera-ish, but we keep it axis-aligned)
-    const normal = new THREE.Vector3(0, 0, 1);
-    const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(normal, this.anchor.position);
-    const hitPoint = new THREE.Vector3();
-    const ok = ray.intersectPlane(plane, hitPoint);
-    if (!ok) return null;
-
-    // reject if too far from center in Z
-    if (Math.abs(hitPoint.z - this.anchor.position.z) > (this.HIT_THICKNESS * (thickness/10))) return null;
-
-    // Convert world point to panel space, then to canvas px
-    const dx = hitPoint.x - this.anchor.position.x;
-    const dy = hitPoint.y - this.anchor.position.y;
-    if (Math.abs(dx) > this.PANEL_W * 0.5 || Math.abs(dy) > this.PANEL_H * 0.5) return null;
-
-    const u = (dx / this.PANEL_W) + 0.5;
-    const v = 0.5 - (dy / this.PANEL_H);
-    const px = u * this.CANVAS_W;
-    const py = v * this.CANVAS_H;
-
-    const inRect = (r:{x:number;y:number;w:number;h:number}) =>
-      px >= r.x && px <= r.x + r.w && py >= r.y && py <= r.y + r.h;
-
-    if (inRect(this.heartRect))  return { kind: 'heart', point: hitPoint.clone() };
-    if (inRect(this.likeRect))   return { kind: 'like', point: hitPoint.clone() };
-    if (inRect(this.repostRect)) return { kind: 'repost', point: hitPoint.clone() };
-    if (inRect(this.postBtnRect)) return { kind: 'post', point: hitPoint.clone() };
-    if (inRect(this.commentsRect)) return { kind: (this.composing ? 'compose' : 'comments'), point: hitPoint.clone() };
-    return null;
+    const s = this.surface.hitRay(ray, this.HIT_THICKNESS * (thickness / 10));
+    this.surface.hover(s?.hit?.widget ?? null);
+    return s?.hit ? this.toHudHit(s.hit, s.point) : null;
   }
 
   /** Older helper if you only have a world point (not a ray). */
@@ -215,18 +412,20 @@ export class ReactionHud {
     return this.raycastHit(ray, 10);
   }
 
-  /** Visual chip for any reaction. */
-  flash(kind: ReactionKind) {
-    const text = kind === 'like' ? '+1 👍' : kind === 'heart' ? '+1 ❤️' : '+1 🔁';
-    this.spawnChip(text);
+  /** Visual chip for a reaction being added (or taken back). */
+  flash(kind: ReactionKind, on = true) {
+    const emoji = kind === 'like' ? '👍' : kind === 'heart' ? '❤️' : '🔁';
+    this.surface.press(this.tiles[kind]);
+    this.spawnChip(`${on ? '+1' : '−1'} ${emoji}`);
   }
 
-  /** Follow object position only (NO rotation/scale updates). */
+  /** Follow the object's position and turn (about Y only, smoothed) to face the viewer. */
   tick(dt: number) {
     const center = this.getObjectWorldPos?.();
     if (center) {
       this.anchor.position.copy(center).add(this.OFFSET);
     }
+    this.faceViewer(dt);
 
     for (let i = this.particles.length - 1; i >= 0; i--) {
       const p = this.particles[i];
@@ -235,230 +434,91 @@ export class ReactionHud {
       p.sprite.position.addScaledVector(p.vel, dt);
       (p.sprite.material as THREE.SpriteMaterial).opacity = Math.max(0, p.ttl / 0.6);
     }
-  }
 
-  // ----------------- internals -----------------
-  private finishCompose(text: string) {
-    this.composing = false;
-    this.composeText = '';
-    this.onComposeSubmit?.(text);
-    this.redraw();
-  }
-
-  private hitTestWorld(worldPoint: THREE.Vector3): Hit {
-    // (kept for compatibility; raycastHit() is preferred)
-    const center = this.anchor.position.clone();
-    const dx = worldPoint.x - center.x;
-    const dy = worldPoint.y - center.y;
-    const dz = worldPoint.z - center.z;
-    if (Math.abs(dz) > this.HIT_THICKNESS) return null;
-    if (Math.abs(dx) > this.PANEL_W * 0.5 || Math.abs(dy) > this.PANEL_H * 0.5) return null;
-
-    const u = (dx / this.PANEL_W) + 0.5;
-    const v = 0.5 - (dy / this.PANEL_H);
-    const px = u * this.CANVAS_W;
-    const py = v * this.CANVAS_H;
-
-    const inRect = (r:{x:number;y:number;w:number;h:number}) =>
-      px >= r.x && px <= r.x + r.w && py >= r.y && py <= r.y + r.h;
-
-    if (inRect(this.heartRect))  return { kind: 'heart' };
-    if (inRect(this.likeRect))   return { kind: 'like' };
-    if (inRect(this.repostRect)) return { kind: 'repost' };
-    if (inRect(this.postBtnRect)) return { kind: 'post' };
-    if (inRect(this.commentsRect)) return { kind: 'comments' };
-    return null;
-  }
-
-  private redraw() {
-    const c = this.panelCanvas, ctx = this.ctx;
-    ctx.clearRect(0, 0, c.width, c.height);
-
-    // Card background (slight transparency)
-    this.rounded(ctx, 0, 0, c.width, c.height, 32);
-    ctx.fillStyle = 'rgba(18,18,28,0.82)';
-    ctx.fill();
-
-    // Header
-    ctx.fillStyle = '#fff';
-    ctx.font = '700 34px system-ui,-apple-system, Segoe UI, Roboto, sans-serif';
-    ctx.textAlign = 'left';
-    ctx.fillText(this.composing ? 'Compose Comment' : 'Reactions', 36, 62);
-
-    // Icons row (hide when composing to focus UI)
-    const iconSize = 112;
-    const baseX = 36;
-    const gap = 36 + iconSize;
-    const tileY = 62 + 32;
-
-    if (!this.composing) {
-      this.heartRect  = this.drawIconWithCounter(this.heartIcon, '❤️', baseX,          tileY, iconSize, this.heartCount);
-      this.likeRect   = this.drawIconWithCounter(this.likeIcon,  '👍', baseX + gap,    tileY, iconSize, this.likeCount);
-      this.repostRect = this.drawIconWithCounter(this.repostIcon,'🔁', baseX + gap*2,  tileY, iconSize, this.repostCount);
-    } else {
-      // reserve rects to something empty so hit tests don't collide
-      this.heartRect = this.likeRect = this.repostRect = { x:-1, y:-1, w:1, h:1 };
+    // keep "2m" / "1h" current
+    this.sinceTimeRedraw += dt;
+    if (this.sinceTimeRedraw >= TIME_REFRESH) {
+      this.sinceTimeRedraw = 0;
+      if (this.comments.length) this.list.invalidate();
     }
 
-    // Comments box (right side)
-    const boxX = baseX + gap * 2 + iconSize + 48;
-    const boxY = 36;
-    const boxW = c.width - boxX - 36;
-    const boxH = c.height - boxY - 36;
-
-    this.commentsRect = { x: boxX + 16, y: boxY + 16, w: boxW - 32, h: boxH - 32 };
-    this.rounded(ctx, boxX, boxY, boxW, boxH, 20);
-    ctx.fillStyle = 'rgba(255,255,255,0.06)';
-    ctx.fill();
-
-    // Compose mode (draw text box + hint)
-    if (this.composing) {
-      const pad = 12;
-      const inputH = 56;
-      const inputRect = { x: this.commentsRect.x, y: this.commentsRect.y, w: this.commentsRect.w, h: inputH };
-      this.rounded(ctx, inputRect.x, inputRect.y, inputRect.w, inputRect.h, 10);
-      ctx.fillStyle = 'rgba(255,255,255,0.14)';
-      ctx.fill();
-
-      ctx.fillStyle = '#fff';
-      ctx.font = '400 22px system-ui,-apple-system, Segoe UI, Roboto, sans-serif';
-      ctx.textAlign = 'left';
-      ctx.textBaseline = 'middle';
-      const shown = this.composeText || 'Type with your XR keyboard…';
-      ctx.fillText(shown, inputRect.x + pad, inputRect.y + inputH/2);
-
-      // Post button (reused spot)
-      const btnW = 160, btnH = 44;
-      this.postBtnRect = {
-        x: this.commentsRect.x + this.commentsRect.w - btnW,
-        y: this.commentsRect.y + this.commentsRect.h - btnH,
-        w: btnW, h: btnH
-      };
-      this.rounded(ctx, this.postBtnRect.x, this.postBtnRect.y, this.postBtnRect.w, this.postBtnRect.h, 12);
-      ctx.fillStyle = '#4b83ff';
-      ctx.fill();
-      ctx.fillStyle = '#fff';
-      ctx.font = '700 22px system-ui,-apple-system, Segoe UI, Roboto, sans-serif';
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      ctx.fillText('Submit', this.postBtnRect.x + btnW/2, this.postBtnRect.y + btnH/2 + 2);
+    // scroll momentum, press feedback, then repaint what changed
+    this.surface.update(dt);
+  }
 
-      this.panelTex.needsUpdate = true;
+  // ----------------- internals -----------------
+  private faceViewer(dt: number) {
+    const eye = this.camera.getWorldPosition(new THREE.Vector3());
+    const dx = eye.x - this.anchor.position.x;
+    const dz = eye.z - this.anchor.position.z;
+    if (dx * dx + dz * dz < 1e-4) return; // straight above / below: keep the heading
+    const target = Math.atan2(dx, dz);
+    if (!this.faced) {
+      this.anchor.rotation.y = target;
+      this.faced = true;
       return;
     }
+    // shortest way round
+    const cur = this.anchor.rotation.y;
+    const delta = THREE.MathUtils.euclideanModulo(target - cur + Math.PI, Math.PI * 2) - Math.PI;
+    this.anchor.rotation.y = cur + delta * (1 - Math.exp(-FACE_RATE * dt));
+  }
 
-    // Comments clipped region (when not composing)
-    ctx.save();
-    ctx.beginPath();
-    ctx.rect(this.commentsRect.x, this.commentsRect.y, this.commentsRect.w, this.commentsRect.h - 64);
-    ctx.clip();
-    ctx.translate(0, -this.scrollY);
-
-    // Render each comment bubble
-    let cy = this.commentsRect.y + 8;
-    for (const cmt of this.comments) {
-      const bubbleW = this.commentsRect.w;
-      const linesH = this.measureWrappedHeight(
-        cmtText(cmt),
-        '400 22px system-ui,-apple-system, Segoe UI, Roboto, sans-serif',
-        bubbleW - 24,
-        26
-      );
-      const bubbleH = linesH + 24;
-
-      this.rounded(ctx, this.commentsRect.x, cy, bubbleW, bubbleH, 12);
-      ctx.fillStyle = 'rgba(255,255,255,0.10)';
-      ctx.fill();
-
-      ctx.fillStyle = '#EDEDED';
-      ctx.font = '400 22px system-ui,-apple-system, Segoe UI, Roboto, sans-serif';
-      cy = this.wrap(ctx, cmtText(cmt), this.commentsRect.x + 12, cy + 18, bubbleW - 24, 26) + 8;
-    }
-    ctx.restore();
-
-    // "Post" button (inside comments area, bottom-right)
-    const btnW = 160, btnH = 44;
-    this.postBtnRect = {
-      x: this.commentsRect.x + this.commentsRect.w - btnW,
-      y: this.commentsRect.y + this.commentsRect.h - btnH,
-      w: btnW, h: btnH
-    };
-    this.rounded(ctx, this.postBtnRect.x, this.postBtnRect.y, this.postBtnRect.w, this.postBtnRect.h, 12);
-    ctx.fillStyle = '#4b83ff';
-    ctx.fill();
-    ctx.fillStyle = '#fff';
-    ctx.font = '700 22px system-ui,-apple-system, Segoe UI, Roboto, sans-serif';
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.fillText('Post', this.postBtnRect.x + btnW/2, this.postBtnRect.y + btnH/2 + 2);
-
-    // Simple scrollbar
-    const contentH = this.contentHeight();
-    const viewH = this.commentsViewportH();
-    if (contentH > viewH) {
-      const trackX = this.commentsRect.x + this.commentsRect.w - 6;
-      const trackY = this.commentsRect.y;
-      const trackH = viewH;
-      const thumbH = Math.max(22, (viewH / contentH) * trackH);
-      const maxScroll = contentH - viewH;
-      const thumbY = trackY + (this.scrollY / maxScroll) * (trackH - thumbH);
-      ctx.fillStyle = 'rgba(255,255,255,0.12)';
-      ctx.fillRect(trackX, trackY, 4, trackH);
-      ctx.fillStyle = 'rgba(255,255,255,0.45)';
-      ctx.fillRect(trackX-1, thumbY, 6, thumbH);
-    }
-
-    this.panelTex.needsUpdate = true;
-
-    function cmtText(c: Comment) {
-      const author = c.author ? `${c.author}: ` : '';
-      return author + c.text;
-    }
+  private setComposing(on: boolean) {
+    this.composing = on;
+    if (!on) this.replyTo = null;
+    this.header.setText(on ? (this.replyTo ? 'Reply' : 'Compose Comment') : 'Reactions');
+    // hide the icons to focus on typing
+    for (const k of ['like', 'heart', 'repost'] as const) this.tiles[k].visible = !on;
+    this.list.visible = !on;
+    this.postBtn.visible = !on;
+    this.composeView.visible = on;
+    this.composeInput.setFocused(on);
+    if (!on) this.composeInput.setText('');
+    const r = this.replyTo;
+    this.replyLabel.setText(r ? `↩ Replying to ${r.author ?? 'comment'}: “${r.text}”` : '');
   }
 
-  private commentsViewportH(): number {
-    return this.commentsRect.h - 64; // space for Post
+  /** Stop following the keyboard and tell it to close. */
+  private closeKeyboard() {
+    if (!this.endKeyboard) return;
+    this.endKeyboard();
+    window.dispatchEvent(new CustomEvent('holoreel:keyboardClose'));
   }
 
-  private contentHeight(): number {
-    let total = 8;
-    for (const cmt of this.comments) {
-      const linesH = this.measureWrappedHeight(
-        (cmt.author ? `${cmt.author}: ` : '') + cmt.text,
-        '400 22px system-ui,-apple-system, Segoe UI, Roboto, sans-serif',
-        this.commentsRect.w - 24,
-        26
-      );
-      const bubbleH = linesH + 24;
-      total += bubbleH + 8;
-    }
-    return total + 8;
+  private finishCompose(text: string) {
+    this.endKeyboard?.();
+    const parentId = this.replyTo ? this.replyTo.parentId ?? this.replyTo.id : undefined;
+    this.setComposing(false);
+    this.onComposeSubmit?.(text, parentId);
   }
 
-  private drawIconWithCounter(img: HTMLImageElement | undefined, fallbackEmoji: string, x: number, y: number, size: number, count: number) {
-    const ctx = this.ctx;
-    // soft tile
-    this.rounded(ctx, x, y, size, size, size * 0.24);
-    ctx.fillStyle = 'rgba(255,255,255,0.08)';
-    ctx.fill();
+  /** Near the end of the list, ask for the next page. */
+  private maybeLoadMore() {
+    const list = this.list;
+    if (!this.hasMore || this.loadingMore || !this.onNeedMore) return;
+    if (list.scrollY + list.rect.h * (1 + LOAD_MORE_AHEAD) < list.contentHeight()) return;
+    this.loadingMore = true;
+    this.onNeedMore();
+  }
 
-    if (img && img.complete && img.naturalWidth > 0) {
-      ctx.drawImage(img, x, y, size, size);
-    } else {
-      ctx.fillStyle = '#fff';
-      ctx.font = `900 ${Math.floor(size * 0.78)}px system-ui,emoji`;
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      ctx.fillText(fallbackEmoji, x + size/2, y + size/2 + 8);
+  private toHudHit(hit: WidgetHit, point: THREE.Vector3): HudHit {
+    switch (hit.widget.id) {
+      case 'comments': {
+        const row = hit.index !== undefined ? this.list.itemAt(hit.index) : undefined;
+        if (row && hit.part === 'reply') return { kind: 'reply', commentId: row.c.id, point };
+        return { kind: 'comments', point };
+      }
+      case 'like':
+      case 'heart':
+      case 'repost':
+      case 'post':
+      case 'compose':
+      case 'submit':
+        return { kind: hit.widget.id, point };
+      default:
+        return null;
     }
-
-    ctx.fillStyle = '#fff';
-    ctx.font = '700 32px system-ui,-apple-system, Segoe UI, Roboto, sans-serif';
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'alphabetic';
-    ctx.fillText(String(count), x + size/2, y + size + 46);
-
-    return { x, y, w: size, h: size + 50 };
   }
 
   private spawnChip(text: string) {
@@ -483,43 +543,52 @@ export class ReactionHud {
 
     this.particles.push({ sprite, vel: new THREE.Vector3(0, 0.25, 0), ttl: 0.9 });
   }
+}
 
-  private rounded(ctx: CanvasRenderingContext2D, x:number, y:number, w:number, h:number, r:number){
-    const rr = Math.min(r, w*0.5, h*0.5);
-    ctx.beginPath();
-    ctx.moveTo(x + rr, y);
-    ctx.arcTo(x + w, y, x + w, y + h, rr);
-    ctx.arcTo(x + w, y + h, x, y + h, rr);
-    ctx.arcTo(x, y + h, x, y, rr);
-    ctx.arcTo(x, y, x + w, y, rr);
-    ctx.closePath();
-  }
-
-  private wrap(ctx: CanvasRenderingContext2D, text:string, x:number, y:number, maxWidth:number, lh:number){
-    ctx.textAlign = 'left';
-    const words = text.split(' '); let line=''; let cy=y;
-    for (let i=0;i<words.length;i++){
-      const test=line+words[i]+' '; const w=ctx.measureText(test).width;
-      if (w>maxWidth && i>0){ ctx.fillText(line, x, cy); line=words[i]+' '; cy+=lh; }
-      else line=test;
-    }
-    ctx.fillText(line, x, cy);
-    return cy + lh;
-  }
-
-  private measureWrappedHeight(text:string, font:string, maxWidth:number, lh:number): number {
-    const ctx = this.ctx;
-    ctx.font = font;
-    const words = text.split(' ');
-    let line = '';
-    let h = 0;
-    for (let i=0;i<words.length;i++){
-      const test = line + words[i] + ' ';
-      const w = ctx.measureText(test).width;
-      if (w > maxWidth && i > 0) { h += lh; line = words[i] + ' '; }
-      else line = test;
+/** Top-level comments in order, each followed by its replies (orphaned replies stand alone). */
+function threadRows(comments: Comment[]): ThreadRow[] {
+  const ids = new Set(comments.map((c) => c.id));
+  const replies = new Map<string, Comment[]>();
+  const top: Comment[] = [];
+  for (const c of comments) {
+    if (c.parentId && ids.has(c.parentId)) {
+      const list = replies.get(c.parentId) ?? [];
+      list.push(c);
+      replies.set(c.parentId, list);
+    } else {
+      top.push(c);
     }
-    h += lh;
-    return h;
   }
+  const rows: ThreadRow[] = [];
+  for (const c of top) {
+    rows.push({ c, depth: 0 });
+    for (const r of replies.get(c.id) ?? []) rows.push({ c: r, depth: 1 });
+  }
+  return rows;
+}
+
+/** "Reply" link, bottom-right of top-level bubbles (row px). */
+function replyRect(w: number, h: number) {
+  return { x: w - 100, y: h - 36, w: 88, h: 30 };
+}
+
+function initials(author?: string) {
+  const parts = (author ?? '?').trim().split(/\s+/).filter(Boolean);
+  const letters = parts.slice(0, 2).map((p) => [...p][0]);
+  return (letters.join('') || '?').toUpperCase();
+}
+
+function avatarColor(author?: string) {
+  let h = 0;
+  for (const ch of author ?? '') h = (h * 31 + ch.charCodeAt(0)) >>> 0;
+  return `hsl(${h % 360}, 55%, 45%)`;
+}
+
+function relativeTime(t: number, now: number) {
+  const s = Math.max(0, (now - t) / 1000);
+  if (s < 45) return 'now';
+  if (s < 3600) return `${Math.round(s / 60)}m`;
+  if (s < 86400) return `${Math.round(s / 3600)}h`;
+  if (s < 7 * 86400) return `${Math.round(s / 86400)}d`;
+  return new Date(t).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
 }
@@ -0,0 +1,176 @@
+import * as THREE from 'three';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiClient, ApiError, CountsResponse, ItemResponse } from '../api/ApiClient';
+import { ItemSocial, SocialStorage } from '../storage/SocialStorage';
+import { ReactionHudManager } from './ReactionHudManager';
+
+// the panel draws to a canvas: record what it's told instead
+vi.mock('./ReactionHud', () => ({
+  ReactionHud: class {
+    setOnComposeSubmit() {}
+    setOnNeedMore() {}
+    setCounts = vi.fn();
+    setActive = vi.fn();
+    setComments = vi.fn();
+    appendComment = vi.fn();
+    replaceComment = vi.fn();
+    appendOlder = vi.fn();
+    flash = vi.fn();
+  },
+}));
+
+/** A promise settled from outside. */
+function deferred<T>() {
+  let resolve!: (v: T) => void, reject!: (e: unknown) => void;
+  const promise = new Promise<T>((res, rej) => ((resolve = res), (reject = rej)));
+  return { promise, resolve, reject };
+}
+
+/** In-memory SocialStorage whose loads can be held back with `hold`. */
+class FakeStorage implements SocialStorage {
+  data = new Map<string, ItemSocial>();
+  hold?: Promise<void>;
+  async load(key: string) {
+    await this.hold;
+    const s = this.data.get(key);
+    return s ? structuredClone(s) : null;
+  }
+  async save(key: string, data: ItemSocial) {
+    this.data.set(key, structuredClone(data));
+  }
+}
+
+/** ApiClient stand-in: every call waits for the test to answer it. */
+function fakeApi() {
+  const reacts: { kind: string; on: boolean; answer: ReturnType<typeof deferred<CountsResponse | undefined>> }[] = [];
+  const comments: ReturnType<typeof deferred<unknown>>[] = [];
+  let reconcile: (key: string, state: ItemResponse) => void = () => {};
+  const api = {
+    react: vi.fn((_key: string, kind: string, on = true) => {
+      const answer = deferred<CountsResponse | undefined>();
+      reacts.push({ kind, on, answer });
+      return answer.promise;
+    }),
+    comment: vi.fn(() => {
+      const answer = deferred<unknown>();
+      comments.push(answer);
+      return answer.promise;
+    }),
+    setOnReconcile: (cb: typeof reconcile) => (reconcile = cb),
+  };
+  return { api, reacts, comments, reconcile: (key: string, state: ItemResponse) => reconcile(key, state) };
+}
+
+const counts = (like: number, heart = 0, repost = 0) => ({ like, heart, repost });
+/** Let pending loads, saves and answers run. */
+const settle = () => new Promise((r) => setTimeout(r, 0));
+
+let storage: FakeStorage;
+let fake: ReturnType<typeof fakeApi>;
+let mgr: ReactionHudManager;
+
+beforeEach(() => {
+  storage = new FakeStorage();
+  fake = fakeApi();
+  mgr = new ReactionHudManager(new THREE.Scene(), new THREE.PerspectiveCamera(), () => null, storage, fake.api as unknown as ApiClient);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('ReactionHudManager reactions', () => {
+  it('shows a toggle at once and takes the server counts when it answers', async () => {
+    mgr.showFor('k');
+    expect(await mgr.toggle('k', 'like')).toBe(true);
+    expect(mgr.getCounts('k')).toEqual(counts(1));
+    expect(mgr.getMine('k')).toEqual(['like']);
+    expect(fake.api.react).toHaveBeenCalledWith('k', 'like', true);
+
+    fake.reacts[0].answer.resolve({ counts: counts(5) });
+    await settle();
+    expect(mgr.getCounts('k')).toEqual(counts(5));
+    expect(storage.data.get('k')?.counts).toEqual(counts(5));
+  });
+
+  it('rolls back a refused toggle and reports it', async () => {
+    const onError = vi.fn();
+    mgr.setOnSyncError(onError);
+    await mgr.toggle('k', 'heart');
+    fake.reacts[0].answer.reject(new ApiError(400, 'nope'));
+    await settle();
+    expect(mgr.getCounts('k')).toEqual(counts(0));
+    expect(mgr.getMine('k')).toEqual([]);
+    expect(onError).toHaveBeenCalledWith('Reaction failed (400)');
+  });
+
+  it('decides on/off from the stored state, even before it has loaded', async () => {
+    storage.data.set('k', { counts: counts(3), mine: ['like'], comments: [] });
+    const gate = deferred<void>();
+    storage.hold = gate.promise;
+    mgr.showFor('k');
+    const on = mgr.toggle('k', 'like');
+    gate.resolve();
+    expect(await on).toBe(false);
+    expect(fake.api.react).toHaveBeenCalledWith('k', 'like', false);
+    expect(mgr.getCounts('k')).toEqual(counts(2));
+  });
+
+  it('two quick toggles turn it on and off again', async () => {
+    const [a, b] = await Promise.all([mgr.toggle('k', 'repost'), mgr.toggle('k', 'repost')]);
+    expect([a, b]).toEqual([true, false]);
+    expect(fake.reacts.map((r) => r.on)).toEqual([true, false]);
+    expect(mgr.getMine('k')).toEqual([]);
+  });
+
+  it('ignores an older answer that arrives after a newer one', async () => {
+    await mgr.toggle('k', 'like');
+    await mgr.toggle('k', 'like');
+    fake.reacts[1].answer.resolve({ counts: counts(0) });
+    await settle();
+    fake.reacts[0].answer.resolve({ counts: counts(1) });
+    await settle();
+    expect(mgr.getCounts('k')).toEqual(counts(0));
+    expect(mgr.getMine('k')).toEqual([]);
+  });
+
+  it('does not roll back a newer toggle when an older call is refused', async () => {
+    await mgr.toggle('k', 'like');
+    await mgr.toggle('k', 'like');
+    await mgr.toggle('k', 'like');
+    fake.reacts[0].answer.reject(new ApiError(400, 'nope'));
+    await settle();
+    expect(mgr.getMine('k')).toEqual(['like']);
+  });
+
+  it('takes the server state for items reconciled after a reload', async () => {
+    await mgr.toggle('k', 'like');
+    fake.reconcile('k', { counts: counts(7, 2), mine: ['heart'], comments: [{ id: 's1', text: 'hi' }] });
+    await settle();
+    expect(mgr.getCounts('k')).toEqual(counts(7, 2));
+    expect(mgr.getMine('k')).toEqual(['heart']);
+    expect(mgr.getComments('k').map((c) => c.id)).toEqual(['s1']);
+  });
+});
+
+describe('ReactionHudManager comments', () => {
+  it('shows a comment at once and swaps in the server copy', async () => {
+    mgr.showFor('k');
+    mgr.addComment('k', 'hello', 'You', undefined, 'c1');
+    await settle();
+    expect(mgr.getComments('k').map((c) => c.text)).toEqual(['hello']);
+
+    fake.comments[0].resolve({ comment: { id: 'c1', text: 'hello', author: 'You', createdAt: 1 } });
+    await settle();
+    expect(mgr.getComments('k')[0].createdAt).toBe(1);
+    expect(storage.data.get('k')?.comments).toHaveLength(1);
+  });
+
+  it('removes a refused comment', async () => {
+    const onError = vi.fn();
+    mgr.setOnSyncError(onError);
+    mgr.addComment('k', 'spam', 'You', undefined, 'c1');
+    await settle();
+    fake.comments[0].reject(new ApiError(400, 'nope'));
+    await settle();
+    expect(mgr.getComments('k')).toEqual([]);
+    expect(onError).toHaveBeenCalledWith('Comment failed (400)');
+  });
+});
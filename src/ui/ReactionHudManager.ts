@@ -1,42 +1,59 @@
 import * as THREE from 'three';
 import { ReactionHud, ReactionKind, Comment, HudHit } from './ReactionHud';
+import { ItemSocial, ReactionCounts, SocialStorage, emptySocial } from '../storage/SocialStorage';
+import { IndexedDBSocialStorage } from '../storage/IndexedDBSocialStorage';
+import { ApiClient, ApiError, ItemResponse } from '../api/ApiClient';
 
-type Counts = { like: number; heart: number; repost: number };
+/** Threads handed to the panel per page; older ones follow as it scrolls. */
+const COMMENT_PAGE = 20;
 
 /**
  * Per-model state for counts + comments, single HUD instance following the active model.
+ * State is loaded from `storage` on first showFor() and written back on every change.
+ * Changes show immediately and are sent through `api`; the server's counts win
+ * when it answers, and a refusal rolls the change back.
  */
 export class ReactionHudManager {
   private hud: ReactionHud;
 
-  private counts = new Map<string, Counts>();
-  private comments = new Map<string, Comment[]>();
+  private items = new Map<string, ItemSocial>();
+  /** Pending / finished loads; changes to an item wait for its load so they aren't overwritten. */
+  private loads = new Map<string, Promise<void>>();
+  /** Latest reaction request per `key:kind`; older answers are stale. */
+  private reactSeq = new Map<string, number>();
   private currentKey: string | null = null;
+  /** Threads of the current item the panel has been given. */
+  private shownThreads = 0;
+  private onSyncError?: (msg: string) => void;
 
   constructor(
     scene: THREE.Scene,
     camera: THREE.Camera,
-    getObjectWorldPos: () => THREE.Vector3 | null
+    getObjectWorldPos: () => THREE.Vector3 | null,
+    private storage: SocialStorage = new IndexedDBSocialStorage(),
+    private api = new ApiClient()
   ) {
     this.hud = new ReactionHud(scene, camera, getObjectWorldPos);
 
-    this.hud.setOnComposeSubmit((text) => {
-      if (!this.currentKey) return;
-      const list = this.comments.get(this.currentKey) ?? [];
-      const c: Comment = { id: `c-${Date.now()}`, author: 'You', text };
-      list.push(c);
-      this.comments.set(this.currentKey, list);
-      this.hud.appendComment(c);
-    });
+    this.hud.setOnComposeSubmit((text, parentId) => this.addCommentForCurrent(text, 'You', parentId));
+    this.hud.setOnNeedMore(() => this.loadOlderComments());
+    this.api.setOnReconcile((key, state) => this.reconcile(key, state));
   }
 
   // data
-  getCounts(modelKey: string): Counts {
-    return this.counts.get(modelKey) ?? { like: 0, heart: 0, repost: 0 };
+  getCounts(modelKey: string): ReactionCounts {
+    return { ...this.item(modelKey).counts };
   }
   getComments(modelKey: string): Comment[] {
-    return this.comments.get(modelKey) ?? [];
+    return this.item(modelKey).comments;
   }
+  /** Reactions this user has made on the item. */
+  getMine(modelKey: string): ReactionKind[] {
+    return this.item(modelKey).mine.slice();
+  }
+
+  /** Called when the server refuses a change (it's been rolled back). */
+  setOnSyncError(cb: (msg: string) => void) { this.onSyncError = cb; }
 
   // icons
   setIcons(heartUrl?: string, likeUrl?: string, repostUrl?: string) {
@@ -50,24 +67,45 @@ export class ReactionHudManager {
 
   // comments
   setComments(modelKey: string, list: Comment[]) {
-    this.comments.set(modelKey, list.slice());
-    if (this.currentKey === modelKey) this.hud.setComments(list);
-  }
-  addCommentForCurrent(text: string, author = 'You') {
-    if (!this.currentKey) return;
-    const list = this.comments.get(this.currentKey) ?? [];
-    const c: Comment = { id: `c-${Date.now()}`, author, text };
-    list.push(c);
-    this.comments.set(this.currentKey, list);
-    this.hud.appendComment(c);
+    this.update(modelKey, (s) => {
+      s.comments = list.slice();
+      this.renderComments(modelKey, s);
+    });
+  }
+  /** `parentId`: reply to that (top-level) comment. */
+  addCommentForCurrent(text: string, author = 'You', parentId?: string) {
+    if (this.currentKey) this.addComment(this.currentKey, text, author, parentId);
+  }
+  /** Shown at once, then sent; `id` if the caller already made one (e.g. the compose tab). */
+  addComment(key: string, text: string, author: string, parentId?: string, id = `c-${Date.now()}`) {
+    const c: Comment = { id, author, text, createdAt: Date.now() };
+    if (parentId) c.parentId = parentId;
+    this.update(key, (s) => {
+      s.comments.push(c);
+      this.showNewComment(key, c);
+    });
+    this.api.comment(key, { id: c.id, text, author, parentId }).then(
+      (res) => res && this.update(key, (s) => {
+        const i = s.comments.findIndex((x) => x.id === c.id);
+        if (i >= 0) s.comments[i] = res.comment;
+        if (this.currentKey === key) this.hud.replaceComment(c.id, res.comment);
+      }),
+      (e) => this.rollback(key, e, 'Comment', (s) => {
+        s.comments = s.comments.filter((x) => x.id !== c.id);
+        this.renderComments(key, s);
+      })
+    );
   }
   scrollComments(steps: number) {
     this.hud.scrollComments(steps);
   }
 
   // compose
-  beginCommentEntry(prefill = '') {
-    this.hud.beginCommentEntry(prefill);
+  beginCommentEntry(prefill = '', replyToId?: string) {
+    this.hud.beginCommentEntry(prefill, replyToId);
+  }
+  submitCommentEntry() {
+    this.hud.submitCommentEntry();
   }
   cancelCommentEntry() {
     this.hud.cancelCommentEntry();
@@ -79,46 +117,177 @@ export class ReactionHudManager {
   // show/bind
   showFor(modelKey: string) {
     this.currentKey = modelKey;
-
-    const c = this.getCounts(modelKey);
-    this.hud.setCounts(c.like, c.heart, c.repost);
-
-    if (!this.comments.has(modelKey) || this.comments.get(modelKey)!.length === 0) {
-      const seed: Comment[] = [
-        { id: 's1', author: 'Ada', text: 'Sed ut perspiciatis unde omnis iste natus error sit voluptatem.' },
-        { id: 's2', author: 'Lin', text: 'Nemo enim ipsam voluptatem quia voluptas sit aspernatur aut odit aut fugit.' },
-        { id: 's3', author: 'Sam', text: 'Ut enim ad minima veniam, quis nostrum exercitationem ullam corporis suscipit.' },
-        { id: 's4', author: 'Mira', text: 'Quis autem vel eum iure reprehenderit qui in ea voluptate velit esse quam nihil molestiae.' }
-      ];
-      this.comments.set(modelKey, seed);
-    }
-    this.hud.setComments(this.comments.get(modelKey)!);
+    this.render(modelKey);
+    // stored state arrives a moment later (first visit only)
+    this.load(modelKey).then(() => {
+      if (this.currentKey === modelKey) this.render(modelKey);
+    });
   }
 
   hide() { /* panel remains visible by design */ }
 
   // counters
-  bump(modelKey: string, kind: ReactionKind) {
-    const c = this.getCounts(modelKey);
-    if (kind === 'like') c.like += 1;
-    else if (kind === 'heart') c.heart += 1;
-    else c.repost += 1;
-    this.counts.set(modelKey, c);
-
-    if (this.currentKey === modelKey) {
-      this.hud.setCounts(c.like, c.heart, c.repost);
-      this.hud.flash(kind);
-    }
+  /**
+   * Flip this user's `kind` reaction on the item; resolves to whether it's now on.
+   * Decided once the stored state is in, so an early toggle doesn't act on a placeholder.
+   */
+  async toggle(modelKey: string, kind: ReactionKind): Promise<boolean> {
+    await this.load(modelKey);
+    let on = false;
+    // applied right away: a second toggle waiting on the same load must see this one
+    this.change(modelKey, (s) => {
+      on = !s.mine.includes(kind);
+      applyReaction(s, kind, on);
+      this.renderCounts(modelKey, s);
+    });
+    if (this.currentKey === modelKey) this.hud.flash(kind, on);
+
+    const id = `${modelKey}:${kind}`;
+    const seq = (this.reactSeq.get(id) ?? 0) + 1;
+    this.reactSeq.set(id, seq);
+    // PUT / DELETE set the state outright, so only the latest request's answer counts
+    const latest = () => this.reactSeq.get(id) === seq;
+    this.api.react(modelKey, kind, on).then(
+      (res) => res && latest() && this.update(modelKey, (s) => {
+        s.counts = { ...res.counts };
+        this.renderCounts(modelKey, s);
+      }),
+      (e) => latest() && this.rollback(modelKey, e, 'Reaction', (s) => {
+        applyReaction(s, kind, !on);
+        this.renderCounts(modelKey, s);
+      })
+    );
+    return on;
   }
 
   // interaction helpers
   raycastHit(ray: THREE.Ray): HudHit { return this.hud.raycastHit(ray, 14); }
   projectHitFromPoint(p: THREE.Vector3): HudHit { return this.hud.projectHitFromPoint(p); }
-  postQuickComment() { this.hud.postQuickComment(); }
+  postQuickComment(text = 'Posted from MR ✍️') { this.addCommentForCurrent(text); }
 
   getPanelCenterWorld(): THREE.Vector3 { return this.hud.getPanelCenterWorld(); }
 
   tick(dt: number) { this.hud.tick(dt); }
+
+  // persistence
+  private item(modelKey: string): ItemSocial {
+    let s = this.items.get(modelKey);
+    if (!s) {
+      s = emptySocial();
+      this.items.set(modelKey, s);
+    }
+    return s;
+  }
+
+  private render(modelKey: string) {
+    const s = this.item(modelKey);
+    this.renderCounts(modelKey, s);
+    this.renderComments(modelKey, s);
+  }
+
+  /** Newest threads first; the panel asks for older pages as it scrolls. */
+  private renderComments(modelKey: string, s: ItemSocial) {
+    if (this.currentKey !== modelKey) return;
+    this.shownThreads = COMMENT_PAGE;
+    const page = commentPage(s.comments, 0, this.shownThreads);
+    this.hud.setComments(page.list, page.hasMore);
+  }
+
+  private loadOlderComments() {
+    const key = this.currentKey;
+    if (!key) return;
+    const from = this.shownThreads;
+    this.shownThreads += COMMENT_PAGE;
+    const page = commentPage(this.item(key).comments, from, this.shownThreads);
+    this.hud.appendOlder(page.list, page.hasMore);
+  }
+
+  private showNewComment(modelKey: string, c: Comment) {
+    if (this.currentKey !== modelKey) return;
+    // a new thread goes on top and pushes the paging window along by one
+    if (!c.parentId) this.shownThreads++;
+    this.hud.appendComment(c);
+  }
+
+  private renderCounts(modelKey: string, s: ItemSocial) {
+    if (this.currentKey !== modelKey) return;
+    this.hud.setCounts(s.counts.like, s.counts.heart, s.counts.repost);
+    this.hud.setActive(s.mine);
+  }
+
+  /** Take the server's word for an item whose queued changes were sent after a reload. */
+  private reconcile(modelKey: string, state: ItemResponse) {
+    this.update(modelKey, (s) => {
+      s.counts = { ...state.counts };
+      s.mine = state.mine.slice();
+      s.comments = state.comments.slice();
+      this.render(modelKey);
+    });
+  }
+
+  /** Undo an optimistic change the server refused (other failures stay queued in the client). */
+  private rollback(modelKey: string, e: unknown, what: string, undo: (s: ItemSocial) => void) {
+    console.warn(`${what} for ${modelKey} was not saved:`, e);
+    this.update(modelKey, undo);
+    this.onSyncError?.(e instanceof ApiError ? `${what} failed (${e.status})` : `${what} failed`);
+  }
+
+  private load(modelKey: string): Promise<void> {
+    let p = this.loads.get(modelKey);
+    if (!p) {
+      p = this.storage.load(modelKey).then(
+        (stored) => {
+          if (stored) this.items.set(modelKey, stored);
+        },
+        (e) => console.warn(`Could not load reactions for ${modelKey}:`, e)
+      );
+      this.loads.set(modelKey, p);
+    }
+    return p;
+  }
+
+  /** Apply `change` once the item's stored state is in, then write it back. */
+  private update(modelKey: string, change: (s: ItemSocial) => void) {
+    this.load(modelKey).then(() => this.change(modelKey, change));
+  }
+
+  /** Apply `change` now (the load must be done) and write the item back. */
+  private change(modelKey: string, change: (s: ItemSocial) => void) {
+    const s = this.item(modelKey);
+    change(s);
+    this.storage.save(modelKey, s).catch((e) => console.warn(`Could not save reactions for ${modelKey}:`, e));
+  }
+}
+
+/** Set / clear this user's reaction; the total moves with it. */
+function applyReaction(s: ItemSocial, kind: ReactionKind, on: boolean) {
+  const had = s.mine.includes(kind);
+  if (on === had) return;
+  s.mine = on ? [...s.mine, kind] : s.mine.filter((k) => k !== kind);
+  s.counts[kind] = Math.max(0, s.counts[kind] + (on ? 1 : -1));
+}
+
+/**
+ * Threads `from`..`to` (newest first), each top-level comment followed by its
+ * replies in the order they were posted.
+ */
+function commentPage(comments: Comment[], from: number, to: number): { list: Comment[]; hasMore: boolean } {
+  const ids = new Set(comments.map((c) => c.id));
+  const top: Comment[] = [];
+  const replies = new Map<string, Comment[]>();
+  for (const c of comments) {
+    if (c.parentId && ids.has(c.parentId)) {
+      const list = replies.get(c.parentId) ?? [];
+      list.push(c);
+      replies.set(c.parentId, list);
+    } else {
+      top.push(c);
+    }
+  }
+  top.reverse();
+  const list: Comment[] = [];
+  for (const c of top.slice(from, to)) list.push(c, ...(replies.get(c.id) ?? []));
+  return { list, hasMore: to < top.length };
 }
 
 export default ReactionHudManager;
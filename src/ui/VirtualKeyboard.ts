@@ -0,0 +1,300 @@
+// src/ui/VirtualKeyboard.ts
+import * as THREE from 'three';
+import { CanvasSurface } from './canvas/CanvasSurface';
+import { Widget } from './canvas/Widget';
+import { Button, ButtonStyle, TextInput } from './canvas/widgets';
+import { FONT } from './canvas/text';
+
+type KeyAction = 'char' | 'shift' | 'backspace' | 'left' | 'right' | 'space' | 'enter' | 'cancel';
+type KeyDef = { label: string; action: KeyAction; char?: string; w?: number };
+type Side = 'left' | 'right';
+
+/** Character rows; shift, backspace and the bottom row are added in layout(). */
+const EMOJI = ['😀', '😂', '😍', '🔥', '👏', '👍', '❤️', '🎉', '🤯', '🙌'];
+const ROWS = ['1234567890', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+
+const KEY_FILL = 'rgba(255,255,255,0.10)';
+const KEY_HOVER = 'rgba(255,255,255,0.32)';
+
+/**
+ * In-headset keyboard: a CanvasSurface panel (same toolkit as ReactionHud)
+ * that answers `holoreel:keyboardOpen` from ReactionHud.beginCommentEntry(),
+ * streams the text back as `holoreel:keyboardInput` and finishes with
+ * `holoreel:keyboardSubmit` / `holoreel:keyboardCancel`.
+ * Keys are pressed by a ray (pinch / select) or by poking through the panel
+ * with an index finger.
+ */
+export class VirtualKeyboard {
+  private surface: CanvasSurface;
+  private field: TextInput;
+  private keys = new Map<Widget, KeyDef>();
+  private shiftKey?: Button;
+
+  private text = '';
+  private cursor = 0;
+  private shift = false;
+  /** Key under each fingertip (highlighted). */
+  private hover: Record<Side, Button | null> = { left: null, right: null };
+  private lastPressAt = 0;
+  /** Per hand: was the finger in front of the panel last frame (poke = front → through). */
+  private pokeFront = { left: false, right: false };
+
+  readonly PANEL_W = 0.48;
+  readonly PANEL_H = 0.272;
+  private readonly CANVAS_W = 1024;
+  private readonly CANVAS_H = 580;
+
+  // Opens this far in front of the head and this far below eye level (m)
+  private readonly DISTANCE = 0.45;
+  private readonly DROP = 0.22;
+  // Poke: finger within this of the plane counts (m, + is in front)
+  private readonly POKE_FRONT = 0.02;
+  private readonly POKE_BEHIND = -0.03;
+  // A pinch can arrive both as XR select and as a hand pinch – one press
+  private readonly PRESS_DEBOUNCE_MS = 150;
+
+  private onOpen = (e: Event) => {
+    e.preventDefault(); // tells ReactionHud not to fall back to window.prompt
+    this.open(String((e as CustomEvent).detail?.text ?? ''));
+  };
+  private onClose = () => this.hide();
+
+  constructor(private scene: THREE.Scene, private camera: THREE.Camera) {
+    this.surface = new CanvasSurface(this.CANVAS_W, this.CANVAS_H, this.PANEL_W, this.PANEL_H);
+    const panel = this.surface.mesh;
+    panel.name = 'virtual-keyboard';
+    panel.renderOrder = 10000;
+    panel.visible = false;
+    this.scene.add(panel);
+
+    const root = this.surface.root;
+    root.background = 'rgba(18,18,28,0.9)';
+    root.radius = 28;
+    this.field = root.add(new TextInput('field', 'Write a comment…', `400 30px ${FONT}`));
+    this.field.setBounds(16, 16, this.CANVAS_W - 32, 72);
+    this.field.setFocused(true);
+    this.layout();
+    this.surface.render();
+
+    window.addEventListener('holoreel:keyboardOpen', this.onOpen);
+    window.addEventListener('holoreel:keyboardClose', this.onClose);
+  }
+
+  get visible() { return this.surface.mesh.visible; }
+
+  open(prefill = '') {
+    this.text = prefill;
+    this.cursor = prefill.length;
+    this.setShift(false);
+    this.setHover('left', null);
+    this.setHover('right', null);
+    this.pokeFront.left = this.pokeFront.right = false;
+    this.field.setText(this.text, this.cursor);
+    this.placeInFront();
+    this.surface.mesh.visible = true;
+  }
+
+  hide() {
+    this.surface.mesh.visible = false;
+  }
+
+  /** Per frame: press feedback and repaint. */
+  tick(dt: number) {
+    if (this.visible) this.surface.update(dt);
+  }
+
+  /** Press the key under `ray` (pinch ray / XR select). True if the keyboard took it. */
+  pressRay(ray: THREE.Ray): boolean {
+    if (!this.visible) return false;
+    const hit = this.surface.hitRay(ray);
+    if (!hit) return false;
+    if (hit.hit) this.press(hit.hit.widget);
+    return true; // on the panel but between keys – still swallow it
+  }
+
+  /** Per frame with each index fingertip (null when not tracked). */
+  poke(side: Side, tip: THREE.Vector3 | null) {
+    const hit = this.visible && tip ? this.surface.hitPoint(tip, -this.POKE_BEHIND) : null;
+    if (!hit || !tip) {
+      this.pokeFront[side] = false;
+      this.setHover(side, null);
+      return;
+    }
+    const z = this.surface.mesh.worldToLocal(tip.clone()).z;
+    const key = this.keyOf(hit.hit?.widget);
+    const front = z > 0 && z <= this.POKE_FRONT;
+    const through = z <= 0;
+
+    this.setHover(side, front || through ? key : null);
+    if (through && this.pokeFront[side] && key) this.press(key);
+    this.pokeFront[side] = front;
+  }
+
+  dispose() {
+    window.removeEventListener('holoreel:keyboardOpen', this.onOpen);
+    window.removeEventListener('holoreel:keyboardClose', this.onClose);
+    this.surface.dispose();
+  }
+
+  // ----------------- internals -----------------
+  private placeInFront() {
+    const panel = this.surface.mesh;
+    const head = new THREE.Vector3();
+    const dir = new THREE.Vector3();
+    this.camera.getWorldPosition(head);
+    this.camera.getWorldDirection(dir);
+    dir.y = 0;
+    if (dir.lengthSq() < 1e-6) dir.set(0, 0, -1);
+    dir.normalize();
+    panel.position.copy(head).addScaledVector(dir, this.DISTANCE);
+    panel.position.y -= this.DROP;
+    panel.lookAt(head);
+  }
+
+  /** The key button `w` is, if it is one (the field isn't). */
+  private keyOf(w: Widget | undefined): Button | null {
+    return w instanceof Button && this.keys.has(w) ? w : null;
+  }
+
+  /** Each hand highlights its own key, so both can show at once. */
+  private setHover(side: Side, key: Button | null) {
+    const prev = this.hover[side];
+    if (prev === key) return;
+    this.hover[side] = key;
+    for (const k of [prev, key]) {
+      if (!k) continue;
+      k.hovered = k === this.hover.left || k === this.hover.right;
+      k.invalidate();
+    }
+  }
+
+  private setShift(on: boolean) {
+    if (on === this.shift) return;
+    this.shift = on;
+    this.shiftKey?.setStyle({ fill: on ? KEY_HOVER : KEY_FILL });
+    for (const [w, k] of this.keys) {
+      if (k.action === 'char') (w as Button).setLabel(on ? k.label.toUpperCase() : k.label);
+    }
+  }
+
+  private press(w: Widget) {
+    const key = this.keys.get(w);
+    if (!key) return;
+    const now = performance.now();
+    if (now - this.lastPressAt < this.PRESS_DEBOUNCE_MS) return;
+    this.lastPressAt = now;
+    this.surface.press(w);
+
+    switch (key.action) {
+      case 'char':
+        this.insert(this.shift ? key.char!.toUpperCase() : key.char!);
+        this.setShift(false);
+        break;
+      case 'space':
+        this.insert(' ');
+        break;
+      case 'backspace':
+        if (this.cursor > 0) {
+          const prev = prevBoundary(this.text, this.cursor);
+          this.text = this.text.slice(0, prev) + this.text.slice(this.cursor);
+          this.cursor = prev;
+          this.emitInput();
+        }
+        break;
+      case 'left':
+        this.cursor = prevBoundary(this.text, this.cursor);
+        break;
+      case 'right':
+        this.cursor = nextBoundary(this.text, this.cursor);
+        break;
+      case 'shift':
+        this.setShift(!this.shift);
+        break;
+      case 'enter': {
+        const text = this.text.trim();
+        if (!text) return;
+        this.hide();
+        window.dispatchEvent(new CustomEvent('holoreel:keyboardSubmit', { detail: text }));
+        return;
+      }
+      case 'cancel':
+        this.hide();
+        window.dispatchEvent(new CustomEvent('holoreel:keyboardCancel'));
+        return;
+    }
+    this.field.setText(this.text, this.cursor);
+  }
+
+  private insert(s: string) {
+    this.text = this.text.slice(0, this.cursor) + s + this.text.slice(this.cursor);
+    this.cursor += s.length;
+    this.emitInput();
+  }
+
+  private emitInput() {
+    window.dispatchEvent(new CustomEvent('holoreel:keyboardInput', { detail: this.text }));
+  }
+
+  /** One Button per key, rows centred under the field. */
+  private layout() {
+    const pad = 16, gap = 8;
+    const fieldH = 72;
+    const unit = (this.CANVAS_W - pad * 2 - gap * 9) / 10;
+    const rowH = 70;
+    let y = pad + fieldH + gap * 2;
+
+    const row = (items: KeyDef[]) => {
+      const total = items.reduce((s, k) => s + (k.w ?? 1), 0);
+      const width = total * unit + (items.length - 1) * gap;
+      let x = (this.CANVAS_W - width) / 2;
+      for (const k of items) {
+        const w = (k.w ?? 1) * unit + ((k.w ?? 1) - 1) * gap;
+        const font = `${k.action === 'char' ? 400 : 700} ${k.label.length > 2 ? 24 : 32}px ${FONT},emoji`;
+        const style: Partial<ButtonStyle> =
+          k.action === 'enter' ? { font } : { font, fill: KEY_FILL, hoverFill: KEY_HOVER, pressFill: 'rgba(255,255,255,0.45)' };
+        const button = this.surface.root.add(new Button(`key-${this.keys.size}`, k.label, style));
+        button.setBounds(x, y, w, rowH);
+        this.keys.set(button, k);
+        if (k.action === 'shift') this.shiftKey = button;
+        x += w + gap;
+      }
+      y += rowH + gap;
+    };
+
+    row(EMOJI.map((e) => ({ label: e, action: 'char' as const, char: e })));
+    for (const [i, chars] of ROWS.entries()) {
+      const items: KeyDef[] = [...chars].map((c) => ({ label: c, action: 'char', char: c }));
+      if (i === ROWS.length - 1) {
+        items.unshift({ label: '⇧', action: 'shift', w: 1.5 });
+        items.push({ label: '⌫', action: 'backspace', w: 1.5 });
+      }
+      row(items);
+    }
+    row([
+      { label: '✕', action: 'cancel', w: 1.2 },
+      { label: ',', action: 'char', char: ',' },
+      { label: '◀', action: 'left' },
+      { label: 'space', action: 'space', w: 3.4 },
+      { label: '▶', action: 'right' },
+      { label: '.', action: 'char', char: '.' },
+      { label: 'Post', action: 'enter', w: 1.6 },
+    ]);
+  }
+}
+
+/** Cursor steps by code point so emoji aren't split in half. */
+function prevBoundary(s: string, i: number) {
+  if (i <= 0) return 0;
+  const c = s.charCodeAt(i - 1);
+  // variation selector (❤️) belongs to the character before it
+  let j = c >= 0xdc00 && c <= 0xdfff && i >= 2 ? i - 2 : i - 1;
+  if (c === 0xfe0f && j > 0) j = prevBoundary(s, j);
+  return j;
+}
+function nextBoundary(s: string, i: number) {
+  if (i >= s.length) return s.length;
+  const c = s.charCodeAt(i);
+  let j = c >= 0xd800 && c <= 0xdbff ? i + 2 : i + 1;
+  if (s.charCodeAt(j) === 0xfe0f) j++;
+  return Math.min(j, s.length);
+}
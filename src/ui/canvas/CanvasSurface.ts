@@ -0,0 +1,186 @@
+// src/ui/canvas/CanvasSurface.ts
+import * as THREE from 'three';
+import { Container, Rect, Widget, WidgetHit, WidgetHost, intersects } from './Widget';
+
+/** Merge dirty rects into one bounding rect past this many. */
+const MAX_DIRTY = 8;
+const PRESS_MS = 150;
+
+/** Where a ray met the surface: canvas px plus the world point. */
+export type SurfaceHit = { px: number; py: number; point: THREE.Vector3; hit: WidgetHit | null };
+
+/** The surface's root widget – it's what connects widgets to their host. */
+class RootWidget extends Container {
+  constructor(private surface: WidgetHost) {
+    super();
+  }
+  host() { return this.surface; }
+}
+
+/**
+ * A canvas on a plane mesh that widgets draw into. Changes are collected as
+ * dirty rects and repainted in render(); hits come from world rays, tested
+ * in the mesh's local space so they work whichever way it faces.
+ */
+export class CanvasSurface implements WidgetHost {
+  readonly mesh: THREE.Mesh<THREE.PlaneGeometry, THREE.MeshBasicMaterial>;
+  readonly root: Container;
+  readonly ctx: CanvasRenderingContext2D;
+  private canvas: HTMLCanvasElement;
+  private tex: THREE.CanvasTexture;
+  private dirty: Rect[] = [];
+  private hoverWidget: Widget | null = null;
+  private pressTimers = new Map<Widget, number>();
+
+  // scratch for hit tests
+  private readonly toLocal = new THREE.Matrix4();
+  private readonly localRay = new THREE.Ray();
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+    /** Plane size (m). */
+    readonly worldW: number,
+    readonly worldH: number
+  ) {
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = width;
+    this.canvas.height = height;
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) throw new Error('CanvasSurface: cannot get 2D context');
+    this.ctx = ctx;
+
+    this.tex = new THREE.CanvasTexture(this.canvas);
+    this.tex.minFilter = THREE.LinearFilter;
+    this.tex.magFilter = THREE.LinearFilter;
+
+    const mat = new THREE.MeshBasicMaterial({
+      map: this.tex,
+      transparent: true,
+      depthTest: true,
+      depthWrite: false,
+    });
+    this.mesh = new THREE.Mesh(new THREE.PlaneGeometry(worldW, worldH), mat);
+
+    this.root = new RootWidget(this);
+    this.root.setBounds(0, 0, width, height);
+  }
+
+  invalidate(r: Rect) {
+    const x0 = Math.max(0, Math.floor(r.x)), y0 = Math.max(0, Math.floor(r.y));
+    const x1 = Math.min(this.width, Math.ceil(r.x + r.w)), y1 = Math.min(this.height, Math.ceil(r.y + r.h));
+    if (x1 <= x0 || y1 <= y0) return;
+    const rect = { x: x0, y: y0, w: x1 - x0, h: y1 - y0 };
+    // fold into an overlapping rect rather than paint the overlap twice
+    for (let i = 0; i < this.dirty.length; i++) {
+      if (intersects(this.dirty[i], rect)) {
+        this.dirty[i] = union(this.dirty[i], rect);
+        return;
+      }
+    }
+    this.dirty.push(rect);
+    if (this.dirty.length > MAX_DIRTY) this.dirty = [this.dirty.reduce(union)];
+  }
+
+  invalidateAll() {
+    this.invalidate({ x: 0, y: 0, w: this.width, h: this.height });
+  }
+
+  /** Per frame: widget updates, press releases, then repaint what changed. */
+  update(dt: number) {
+    const now = performance.now();
+    for (const [w, until] of this.pressTimers) {
+      if (now < until) continue;
+      this.pressTimers.delete(w);
+      w.pressed = false;
+      w.invalidate();
+    }
+    this.root.update(dt);
+    this.render();
+  }
+
+  render() {
+    if (!this.dirty.length) return;
+    const regions = this.dirty;
+    this.dirty = [];
+    const ctx = this.ctx;
+    for (const r of regions) {
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(r.x, r.y, r.w, r.h);
+      ctx.clip();
+      ctx.clearRect(r.x, r.y, r.w, r.h);
+      this.root.paint(ctx, r);
+      ctx.restore();
+    }
+    this.tex.needsUpdate = true;
+  }
+
+  /**
+   * Intersect a world ray with the surface. Rays starting further than
+   * `behind` (m) behind it miss: the back isn't drawn.
+   */
+  hitRay(ray: THREE.Ray, behind = 0.08): SurfaceHit | null {
+    this.mesh.updateWorldMatrix(true, false);
+    const local = this.localRay.copy(ray).applyMatrix4(this.toLocal.copy(this.mesh.matrixWorld).invert());
+    if (local.origin.z < -behind) return null;
+    if (Math.abs(local.direction.z) < 1e-6) return null;
+    const t = -local.origin.z / local.direction.z;
+    if (t < 0) return null;
+    const p = local.at(t, new THREE.Vector3());
+    return this.hitLocal(p);
+  }
+
+  /** Same for a point near the plane (within `thickness` m), e.g. a fingertip. */
+  hitPoint(world: THREE.Vector3, thickness = 0.08): SurfaceHit | null {
+    this.mesh.updateWorldMatrix(true, false);
+    const p = this.mesh.worldToLocal(world.clone());
+    if (Math.abs(p.z) > thickness) return null;
+    return this.hitLocal(p);
+  }
+
+  /** Widget under canvas px (x, y). */
+  widgetAt(x: number, y: number): WidgetHit | null {
+    return this.root.hitTest(x, y);
+  }
+
+  /** Highlight the widget under the pointer (null: none). */
+  hover(w: Widget | null) {
+    if (w === this.hoverWidget) return;
+    if (this.hoverWidget) {
+      this.hoverWidget.hovered = false;
+      this.hoverWidget.invalidate();
+    }
+    this.hoverWidget = w;
+    if (w) {
+      w.hovered = true;
+      w.invalidate();
+    }
+  }
+
+  /** Show `w` pressed for a moment. */
+  press(w: Widget) {
+    w.pressed = true;
+    w.invalidate();
+    this.pressTimers.set(w, performance.now() + PRESS_MS);
+  }
+
+  dispose() {
+    this.mesh.parent?.remove(this.mesh);
+    this.mesh.geometry.dispose();
+    this.mesh.material.dispose();
+    this.tex.dispose();
+  }
+
+  private hitLocal(p: THREE.Vector3): SurfaceHit | null {
+    if (Math.abs(p.x) > this.worldW * 0.5 || Math.abs(p.y) > this.worldH * 0.5) return null;
+    const px = (p.x / this.worldW + 0.5) * this.width;
+    const py = (0.5 - p.y / this.worldH) * this.height;
+    return { px, py, point: this.mesh.localToWorld(p), hit: this.widgetAt(px, py) };
+  }
+}
+
+function union(a: Rect, b: Rect): Rect {
+  const x = Math.min(a.x, b.x), y = Math.min(a.y, b.y);
+  return { x, y, w: Math.max(a.x + a.w, b.x + b.w) - x, h: Math.max(a.y + a.h, b.y + b.h) - y };
+}
@@ -0,0 +1,155 @@
+// src/ui/canvas/ListView.ts
+import { Rect, WidgetHit, contains } from './Widget';
+import { ScrollView } from './ScrollView';
+
+/** How a ListView measures, draws and hit-tests its items (row-local px). */
+export interface ListRenderer<T> {
+  /** Stable id: measured heights are cached under it. */
+  key(item: T): string;
+  measure(ctx: CanvasRenderingContext2D, item: T, w: number): number;
+  draw(ctx: CanvasRenderingContext2D, item: T, w: number, h: number): void;
+  /** Name of the part of the row at (x, y), reported as WidgetHit.part. */
+  hit?(item: T, x: number, y: number, w: number, h: number): string | undefined;
+  /** Left inset of the row (e.g. replies). */
+  indent?(item: T): number;
+}
+
+/**
+ * y is in content px. `h` is an estimate until the row first comes into view
+ * and is measured.
+ */
+type Row<T> = { item: T; x: number; y: number; w: number; h: number; measured: boolean };
+
+const PAD = 8;
+const GAP = 8;
+
+/**
+ * Virtualized scrolling list: only rows in view are measured and drawn, so
+ * long lists cost what's on screen. Hit tests report the row as `index`.
+ */
+export class ListView<T> extends ScrollView {
+  private items: T[] = [];
+  private rows: Row<T>[] = [];
+  private rowsDirty = true;
+  /** Measured heights by key (cleared when the width changes). */
+  private heights = new Map<string, number>();
+  private lastWidth = 0;
+
+  constructor(id: string, private renderer: ListRenderer<T>, private estimate = 100) {
+    super();
+    this.id = id;
+  }
+
+  get length() { return this.items.length; }
+  itemAt(index: number): T | undefined { return this.items[index]; }
+
+  /** Replace the items; scrolls to the top unless `keepScroll` (e.g. more were appended). */
+  setItems(items: T[], keepScroll = false) {
+    this.items = items.slice();
+    this.rowsDirty = true;
+    if (!keepScroll) this.scrollTo(0);
+    this.invalidate();
+  }
+
+  contentHeight(): number {
+    const rows = this.layoutRows();
+    const last = rows[rows.length - 1];
+    return last ? last.y + last.h + 16 : 16;
+  }
+
+  hitTest(x: number, y: number): WidgetHit | null {
+    if (!this.visible || !contains(this.rect, x, y)) return null;
+    const lx = x - this.rect.x, ly = y - this.rect.y + this.scrollY;
+    for (const i of this.visibleRange(this.scrollY, this.scrollY + this.rect.h)) {
+      const r = this.rows[i];
+      if (!contains(r, lx, ly)) continue;
+      const part = this.renderer.hit?.(r.item, lx - r.x, ly - r.y, r.w, r.h);
+      return { widget: this, index: i, part };
+    }
+    return { widget: this };
+  }
+
+  protected layout() {
+    if (this.rect.w === this.lastWidth) return;
+    this.lastWidth = this.rect.w;
+    this.heights.clear();
+    this.rowsDirty = true;
+  }
+
+  protected paintContent(ctx: CanvasRenderingContext2D, clip: Rect) {
+    const top = Math.max(clip.y, this.scrollY);
+    const bottom = Math.min(clip.y + clip.h, this.scrollY + this.rect.h);
+    for (const i of this.visibleRange(top, bottom)) {
+      const r = this.rows[i];
+      ctx.save();
+      ctx.translate(r.x, r.y);
+      this.renderer.draw(ctx, r.item, r.w, r.h);
+      ctx.restore();
+    }
+  }
+
+  /**
+   * Row order with positions. Rebuilding is cheap (no text measuring): rows
+   * use cached heights, or the estimate until visibleRange() measures them.
+   */
+  private layoutRows(): Row<T>[] {
+    if (!this.rowsDirty) return this.rows;
+    this.rows = this.items.map((item) => {
+      const h = this.heights.get(this.renderer.key(item));
+      const x = this.renderer.indent?.(item) ?? 0;
+      return { item, x, y: 0, w: this.rect.w - x, h: h ?? this.estimate, measured: h !== undefined };
+    });
+    this.rowsDirty = false;
+    this.placeRows(0);
+    return this.rows;
+  }
+
+  /** Recompute y from row `from` on. */
+  private placeRows(from: number) {
+    const rows = this.rows;
+    let y = from > 0 ? rows[from - 1].y + rows[from - 1].h + GAP : PAD;
+    for (let i = from; i < rows.length; i++) {
+      rows[i].y = y;
+      y += rows[i].h + GAP;
+    }
+  }
+
+  /** Indices of rows overlapping content y `top`..`bottom`, measured. */
+  private visibleRange(top: number, bottom: number): number[] {
+    const rows = this.layoutRows();
+    const ctx = this.host()?.ctx;
+    // measuring can shrink rows and pull more into view, so settle first
+    for (let pass = 0; ctx && pass < 3; pass++) {
+      let first = -1;
+      for (let i = this.firstRowBelow(top); i < rows.length && rows[i].y <= bottom; i++) {
+        const r = rows[i];
+        if (r.measured) continue;
+        ctx.save();
+        r.h = this.renderer.measure(ctx, r.item, r.w);
+        ctx.restore();
+        r.measured = true;
+        this.heights.set(this.renderer.key(r.item), r.h);
+        if (first < 0) first = i;
+      }
+      if (first < 0) break;
+      this.placeRows(first);
+      // rows below moved; the next render() repaints them
+      this.invalidate();
+    }
+    const out: number[] = [];
+    for (let i = this.firstRowBelow(top); i < rows.length && rows[i].y <= bottom; i++) out.push(i);
+    return out;
+  }
+
+  /** Index of the first row whose bottom is below `y` (binary search). */
+  private firstRowBelow(y: number): number {
+    const rows = this.rows;
+    let lo = 0, hi = rows.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (rows[mid].y + rows[mid].h < y) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+}
@@ -0,0 +1,77 @@
+// src/ui/canvas/ScrollView.ts
+import * as THREE from 'three';
+import { Container, Rect, intersects } from './Widget';
+
+// momentum: each step adds velocity that decays with friction (px/s, 1/s)
+const STEP = 42;
+const IMPULSE = 9;
+const MAX_VEL = 2600;
+const FRICTION = 5;
+
+/** Vertically scrolling, clipped container with momentum and a scrollbar. */
+export class ScrollView extends Container {
+  private scroll = 0;
+  private vel = 0;
+  /** After the scroll position changes. */
+  onScroll?: () => void;
+
+  constructor() {
+    super();
+    this.clipChildren = true;
+  }
+
+  get scrollY() { return this.scroll; }
+  get maxScroll() { return Math.max(0, this.contentHeight() - this.rect.h); }
+
+  contentOffset() { return { x: 0, y: -this.scroll }; }
+
+  /** Children's extent; lists override this. */
+  contentHeight(): number {
+    let h = 0;
+    for (const c of this.children) if (c.visible) h = Math.max(h, c.rect.y + c.rect.h);
+    return h;
+  }
+
+  /** Adds momentum (+ is down the content); update() glides. */
+  scrollBy(steps: number) {
+    this.vel = THREE.MathUtils.clamp(this.vel + steps * STEP * IMPULSE, -MAX_VEL, MAX_VEL);
+  }
+
+  scrollTo(y: number) {
+    this.vel = 0;
+    this.setScroll(y);
+  }
+
+  update(dt: number) {
+    super.update(dt);
+    if (this.vel === 0) return;
+    const max = this.maxScroll;
+    const next = THREE.MathUtils.clamp(this.scroll + this.vel * dt, 0, max);
+    this.vel *= Math.exp(-FRICTION * dt);
+    if (next === 0 || next === max || Math.abs(this.vel) < 5) this.vel = 0;
+    this.setScroll(next);
+  }
+
+  paint(ctx: CanvasRenderingContext2D, clip: Rect) {
+    super.paint(ctx, clip);
+    if (!this.visible || !intersects(this.rect, clip)) return;
+    const contentH = this.contentHeight();
+    const viewH = this.rect.h;
+    if (contentH <= viewH) return;
+    const trackX = this.rect.x + this.rect.w - 6;
+    const thumbH = Math.max(22, (viewH / contentH) * viewH);
+    const thumbY = this.rect.y + (this.scroll / (contentH - viewH)) * (viewH - thumbH);
+    ctx.fillStyle = 'rgba(255,255,255,0.12)';
+    ctx.fillRect(trackX, this.rect.y, 4, viewH);
+    ctx.fillStyle = 'rgba(255,255,255,0.45)';
+    ctx.fillRect(trackX - 1, thumbY, 6, thumbH);
+  }
+
+  private setScroll(y: number) {
+    const next = THREE.MathUtils.clamp(y, 0, this.maxScroll);
+    if (next === this.scroll) return;
+    this.scroll = next;
+    this.invalidate();
+    this.onScroll?.();
+  }
+}
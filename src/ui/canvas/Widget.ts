@@ -0,0 +1,177 @@
+// src/ui/canvas/Widget.ts
+// Retained-mode widgets drawn into a CanvasSurface. Rects are canvas px,
+// relative to the parent's content origin; state changes call invalidate()
+// and the surface repaints only the dirty areas on its next render().
+
+export type Rect = { x: number; y: number; w: number; h: number };
+
+/** What a hit test found; `index` / `part` say where inside it (e.g. a list row's link). */
+export type WidgetHit = { widget: Widget; index?: number; part?: string };
+
+/** Implemented by CanvasSurface; widgets reach it through their root. */
+export interface WidgetHost {
+  readonly ctx: CanvasRenderingContext2D;
+  invalidate(r: Rect): void;
+}
+
+export function intersects(a: Rect, b: Rect) {
+  return a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+}
+
+export function contains(r: Rect, x: number, y: number) {
+  return x >= r.x && x <= r.x + r.w && y >= r.y && y <= r.y + r.h;
+}
+
+export abstract class Widget {
+  rect: Rect = { x: 0, y: 0, w: 0, h: 0 };
+  parent?: Container;
+  /** Hit tests only report widgets with an id; the rest let the pointer through. */
+  id?: string;
+  hovered = false;
+  pressed = false;
+  private shown = true;
+
+  get visible() { return this.shown; }
+  set visible(on: boolean) {
+    if (on === this.shown) return;
+    // invalidate while shown so the area it leaves is cleared too
+    if (!on) this.invalidate();
+    this.shown = on;
+    if (on) this.invalidate();
+  }
+
+  setBounds(x: number, y: number, w: number, h: number) {
+    const r = this.rect;
+    if (r.x === x && r.y === y && r.w === w && r.h === h) return;
+    this.invalidate();
+    this.rect = { x, y, w, h };
+    this.layout();
+    this.invalidate();
+  }
+
+  /** Queue a repaint of this widget's area. */
+  invalidate() {
+    if (!this.shown) return;
+    this.host()?.invalidate(this.surfaceRect());
+  }
+
+  host(): WidgetHost | undefined {
+    return this.parent?.host();
+  }
+
+  /** This widget's rect in canvas px (not clipped by scroll views). */
+  surfaceRect(): Rect {
+    let { x, y } = this.rect;
+    for (let p = this.parent; p; p = p.parent) {
+      const o = p.contentOffset();
+      x += p.rect.x + o.x;
+      y += p.rect.y + o.y;
+    }
+    return { x, y, w: this.rect.w, h: this.rect.h };
+  }
+
+  /** Per frame (animation, momentum). */
+  update(_dt: number) {}
+
+  /** `x`, `y` in the parent's content coords. */
+  hitTest(x: number, y: number): WidgetHit | null {
+    if (!this.shown || !this.id || !contains(this.rect, x, y)) return null;
+    return { widget: this };
+  }
+
+  /** Draw if inside `clip` (parent content coords). */
+  paint(ctx: CanvasRenderingContext2D, clip: Rect) {
+    if (!this.shown || !intersects(this.rect, clip)) return;
+    ctx.save();
+    ctx.translate(this.rect.x, this.rect.y);
+    this.draw(ctx);
+    ctx.restore();
+  }
+
+  /** Children are placed here after setBounds(). */
+  protected layout() {}
+
+  /** Draw at (0, 0) .. (rect.w, rect.h). */
+  protected abstract draw(ctx: CanvasRenderingContext2D): void;
+}
+
+/** Groups widgets; optionally draws a rounded background and clips them. */
+export class Container extends Widget {
+  readonly children: Widget[] = [];
+  background?: string;
+  radius = 0;
+  clipChildren = false;
+
+  add<W extends Widget>(w: W): W {
+    w.parent?.remove(w);
+    w.parent = this;
+    this.children.push(w);
+    w.invalidate();
+    return w;
+  }
+
+  remove(w: Widget) {
+    const i = this.children.indexOf(w);
+    if (i < 0) return;
+    w.invalidate();
+    this.children.splice(i, 1);
+    w.parent = undefined;
+  }
+
+  /** Where children's (0, 0) sits inside this widget (scroll views move it). */
+  contentOffset() { return { x: 0, y: 0 }; }
+
+  update(dt: number) {
+    for (const c of this.children) c.update(dt);
+  }
+
+  hitTest(x: number, y: number): WidgetHit | null {
+    if (!this.visible || !contains(this.rect, x, y)) return null;
+    const o = this.contentOffset();
+    const lx = x - this.rect.x - o.x, ly = y - this.rect.y - o.y;
+    for (let i = this.children.length - 1; i >= 0; i--) {
+      const hit = this.children[i].hitTest(lx, ly);
+      if (hit) return hit;
+    }
+    return super.hitTest(x, y);
+  }
+
+  paint(ctx: CanvasRenderingContext2D, clip: Rect) {
+    if (!this.visible || !intersects(this.rect, clip)) return;
+    ctx.save();
+    ctx.translate(this.rect.x, this.rect.y);
+    this.draw(ctx);
+    if (this.clipChildren) {
+      ctx.beginPath();
+      ctx.rect(0, 0, this.rect.w, this.rect.h);
+      ctx.clip();
+    }
+    const o = this.contentOffset();
+    ctx.translate(o.x, o.y);
+    this.paintContent(ctx, { x: clip.x - this.rect.x - o.x, y: clip.y - this.rect.y - o.y, w: clip.w, h: clip.h });
+    ctx.restore();
+  }
+
+  /** Children by default; `clip` is in content coords. */
+  protected paintContent(ctx: CanvasRenderingContext2D, clip: Rect) {
+    for (const c of this.children) c.paint(ctx, clip);
+  }
+
+  protected draw(ctx: CanvasRenderingContext2D) {
+    if (!this.background) return;
+    roundedRect(ctx, 0, 0, this.rect.w, this.rect.h, this.radius);
+    ctx.fillStyle = this.background;
+    ctx.fill();
+  }
+}
+
+export function roundedRect(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) {
+  const rr = Math.min(r, w * 0.5, h * 0.5);
+  ctx.beginPath();
+  ctx.moveTo(x + rr, y);
+  ctx.arcTo(x + w, y, x + w, y + h, rr);
+  ctx.arcTo(x + w, y + h, x, y + h, rr);
+  ctx.arcTo(x, y + h, x, y, rr);
+  ctx.arcTo(x, y, x + w, y, rr);
+  ctx.closePath();
+}
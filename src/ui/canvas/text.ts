@@ -0,0 +1,42 @@
+// src/ui/canvas/text.ts
+
+export const FONT = 'system-ui,-apple-system, Segoe UI, Roboto, sans-serif';
+
+/** Word-wrap `text` to `maxWidth` in `font` (a word longer than a line gets its own). */
+export function wrapLines(ctx: CanvasRenderingContext2D, text: string, font: string, maxWidth: number): string[] {
+  ctx.font = font;
+  const words = text.split(' ');
+  const lines: string[] = [];
+  let line = '';
+  for (let i = 0; i < words.length; i++) {
+    const test = line + words[i] + ' ';
+    if (ctx.measureText(test).width > maxWidth && i > 0) {
+      lines.push(line.trimEnd());
+      line = words[i] + ' ';
+    } else {
+      line = test;
+    }
+  }
+  lines.push(line.trimEnd());
+  return lines;
+}
+
+/** Draw wrapped text from (x, y) (top of the first line); returns the y below the last line. */
+export function drawWrapped(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  font: string,
+  x: number,
+  y: number,
+  maxWidth: number,
+  lineHeight: number
+) {
+  const lines = wrapLines(ctx, text, font, maxWidth);
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  for (const l of lines) {
+    ctx.fillText(l, x, y);
+    y += lineHeight;
+  }
+  return y;
+}
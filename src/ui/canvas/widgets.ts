@@ -0,0 +1,177 @@
+// src/ui/canvas/widgets.ts
+// Leaf widgets: Label, Button, TextInput.
+import { Widget, roundedRect } from './Widget';
+import { FONT, drawWrapped, wrapLines } from './text';
+
+export type LabelOptions = {
+  font?: string;
+  color?: string;
+  align?: CanvasTextAlign;
+  /** Wrap to the label's width; otherwise one line, vertically centred. */
+  wrap?: boolean;
+  lineHeight?: number;
+};
+
+export class Label extends Widget {
+  private opts: Required<LabelOptions>;
+
+  constructor(private text = '', opts: LabelOptions = {}) {
+    super();
+    this.opts = { font: `400 22px ${FONT}`, color: '#fff', align: 'left', wrap: false, lineHeight: 26, ...opts };
+  }
+
+  setText(text: string) {
+    if (text === this.text) return;
+    this.text = text;
+    this.invalidate();
+  }
+
+  setColor(color: string) {
+    if (color === this.opts.color) return;
+    this.opts.color = color;
+    this.invalidate();
+  }
+
+  /** Height the text takes at width `w` (wrapped labels). */
+  measureHeight(ctx: CanvasRenderingContext2D, w: number) {
+    if (!this.opts.wrap) return this.opts.lineHeight;
+    return wrapLines(ctx, this.text, this.opts.font, w).length * this.opts.lineHeight;
+  }
+
+  protected draw(ctx: CanvasRenderingContext2D) {
+    const { font, color, align, wrap, lineHeight } = this.opts;
+    ctx.fillStyle = color;
+    if (wrap) {
+      drawWrapped(ctx, this.text, font, 0, 0, this.rect.w, lineHeight);
+      return;
+    }
+    ctx.font = font;
+    ctx.textAlign = align;
+    ctx.textBaseline = 'middle';
+    const x = align === 'center' ? this.rect.w / 2 : align === 'right' || align === 'end' ? this.rect.w : 0;
+    ctx.fillText(this.text, x, this.rect.h / 2);
+  }
+}
+
+export type ButtonStyle = {
+  font: string;
+  color: string;
+  fill: string;
+  hoverFill: string;
+  pressFill: string;
+  radius: number;
+};
+
+const BUTTON: ButtonStyle = {
+  font: `700 22px ${FONT}`,
+  color: '#fff',
+  fill: '#4b83ff',
+  hoverFill: '#6a9bff',
+  pressFill: '#3767d6',
+  radius: 12,
+};
+
+/** Text button; hit tests report it by `id`. */
+export class Button extends Widget {
+  private style: ButtonStyle;
+
+  constructor(id: string, private label: string, style: Partial<ButtonStyle> = {}) {
+    super();
+    this.id = id;
+    this.style = { ...BUTTON, ...style };
+  }
+
+  setLabel(label: string) {
+    if (label === this.label) return;
+    this.label = label;
+    this.invalidate();
+  }
+
+  setStyle(style: Partial<ButtonStyle>) {
+    this.style = { ...this.style, ...style };
+    this.invalidate();
+  }
+
+  protected draw(ctx: CanvasRenderingContext2D) {
+    const s = this.style;
+    roundedRect(ctx, 0, 0, this.rect.w, this.rect.h, s.radius);
+    ctx.fillStyle = this.pressed ? s.pressFill : this.hovered ? s.hoverFill : s.fill;
+    ctx.fill();
+    ctx.fillStyle = s.color;
+    ctx.font = s.font;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(this.label, this.rect.w / 2, this.rect.h / 2 + 2);
+  }
+}
+
+/**
+ * Single-line text field. It only shows text: typing comes from whichever
+ * keyboard the owner listens to, which calls setText().
+ */
+export class TextInput extends Widget {
+  focused = false;
+  private text = '';
+  private cursor = 0;
+
+  constructor(id: string, private placeholder = '', private font = `400 22px ${FONT}`) {
+    super();
+    this.id = id;
+  }
+
+  get value() { return this.text; }
+
+  /** `cursor`: where the caret goes (default: the end). */
+  setText(text: string, cursor = text.length) {
+    cursor = Math.max(0, Math.min(cursor, text.length));
+    if (text === this.text && cursor === this.cursor) return;
+    this.text = text;
+    this.cursor = cursor;
+    this.invalidate();
+  }
+
+  setFocused(on: boolean) {
+    if (on === this.focused) return;
+    this.focused = on;
+    this.invalidate();
+  }
+
+  protected draw(ctx: CanvasRenderingContext2D) {
+    const pad = 12;
+    roundedRect(ctx, 0, 0, this.rect.w, this.rect.h, 10);
+    ctx.fillStyle = this.hovered ? 'rgba(255,255,255,0.18)' : 'rgba(255,255,255,0.14)';
+    ctx.fill();
+    if (this.focused) {
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = '#4b83ff';
+      ctx.stroke();
+    }
+
+    ctx.font = this.font;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    const y = this.rect.h / 2;
+    const caretH = Math.round(this.rect.h / 2);
+    if (!this.text) {
+      ctx.fillStyle = 'rgba(255,255,255,0.5)';
+      ctx.fillText(this.placeholder, pad, y);
+      ctx.fillStyle = '#4b83ff';
+      if (this.focused) ctx.fillRect(pad, y - caretH / 2, 2, caretH);
+      return;
+    }
+    // slide long text left to keep the caret (where typing happens) in view
+    const caretX = ctx.measureText(this.text.slice(0, this.cursor)).width;
+    const x = pad - Math.max(0, caretX - (this.rect.w - pad * 2 - 4));
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(pad, 0, this.rect.w - pad * 2, this.rect.h);
+    ctx.clip();
+    ctx.fillStyle = '#fff';
+    ctx.fillText(this.text, x, y);
+    if (this.focused) {
+      ctx.fillStyle = '#4b83ff';
+      ctx.fillRect(x + caretX + 1, y - caretH / 2, 2, caretH);
+    }
+    ctx.restore();
+  }
+}
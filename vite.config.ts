@@ -1,10 +1,11 @@
 import { defineConfig } from 'vite'
 import mkcert from 'vite-plugin-mkcert'
+import { mockApi } from './mock/mockApi'
 
 export default defineConfig({
-  plugins: [mkcert()],
+  plugins: [mkcert(), mockApi()],
   server: {
-    https: true,  // use mkcert certs
+    // https is switched on by mkcert() with its certs
     host: true    // expose on LAN so Quest can reach it
   }
 })